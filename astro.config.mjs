@@ -5,12 +5,24 @@ import sitemap from "@astrojs/sitemap";
 import pagefind from "astro-pagefind";
 import cloudflare from "@astrojs/cloudflare";
 import mdx from "@astrojs/mdx";
+import { contentHistory } from "./src/lib/content-history.generated.ts";
 
 // https://astro.build/config
 export default defineConfig({
   site: "https://sysdesign.wiki",
   trailingSlash: "ignore",
-  integrations: [sitemap(), pagefind(), mdx()],
+  integrations: [
+    sitemap({
+      // Reading pages get the date they last changed or were reviewed; see scripts/generate-content-history.mjs.
+      serialize(item) {
+        const id = new URL(item.url).pathname.replace(/^\/|\/$/g, "");
+        const updated = contentHistory[id]?.updated;
+        return updated ? { ...item, lastmod: updated } : item;
+      },
+    }),
+    pagefind(),
+    mdx(),
+  ],
 
   markdown: {
     shikiConfig: {
@@ -24,5 +36,7 @@ export default defineConfig({
 
   adapter: cloudflare({
     session: false,
+    // Static pages prerender in Node: the feeds render MDX through Astro's container API, which does not bundle for workerd.
+    prerenderEnvironment: "node",
   }),
 });
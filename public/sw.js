@@ -0,0 +1,270 @@
+/**
+ * Service worker for offline reading.
+ *
+ * Two caches:
+ *   sysdesign-shell-<version>  — the app shell, fonts and Pagefind entry files,
+ *                                precached on install and replaced per deploy
+ *   sysdesign-saved-pages      — pages on the reading list with the scripts,
+ *                                styles and images they load, kept across deploys
+ *
+ * The precache list is filled in after the build by
+ * scripts/generate-service-worker.mjs; this file is served unprocessed in dev,
+ * where the worker is not registered. Pages are added to and removed from the
+ * saved cache by src/scripts/offline-pages.ts, which keeps it in step with
+ * the reading list.
+ */
+
+/** @type {{ version: string; urls: string[]; fonts: string[] }} */
+const PRECACHE = self.__PRECACHE_MANIFEST ?? { version: 'dev', urls: [], fonts: [] };
+
+const SHELL_CACHE = `sysdesign-shell-${PRECACHE.version}`;
+// Also named in src/scripts/offline-pages.ts.
+const SAVED_CACHE = 'sysdesign-saved-pages';
+const OFFLINE_PAGE = '/offline';
+const FONT_ORIGINS = ['https://fonts.googleapis.com', 'https://fonts.gstatic.com'];
+// Lists the files a saved page loads, on the page's own cache entry.
+const SUBRESOURCES_HEADER = 'X-Offline-Subresources';
+
+/** "/systems/discord/" and "/systems/discord" are the same page. */
+function pageKey(url) {
+  const { pathname } = new URL(url, self.location.origin);
+  return pathname.replace(/\/$/, '') || '/';
+}
+
+/**
+ * Cloudflare answers "/systems/discord" with a redirect to the trailing-slash
+ * URL, and a redirected response cannot be replayed for a navigation. Copy
+ * the body into a fresh response before caching it.
+ */
+async function storable(response) {
+  if (!response.redirected) return response;
+  return new Response(await response.blob(), { status: response.status, headers: response.headers });
+}
+
+/** Saved pages share their cache with the files they load; only the pages are HTML. */
+function isPage(response) {
+  return response?.headers.get('Content-Type')?.startsWith('text/html') ?? false;
+}
+
+/** Build assets and Pagefind chunks carry a content hash in their name, so a URL never changes content. */
+function isImmutable(url) {
+  return (
+    FONT_ORIGINS.includes(url.origin) ||
+    url.pathname.startsWith('/_astro/') ||
+    /^\/pagefind\/(index|fragment)\//.test(url.pathname) ||
+    url.pathname.endsWith('.pf_meta')
+  );
+}
+
+// ── Install & activate ───────────────────────────────────────────────────────
+
+/** Caches each stylesheet and the Latin font files it points at. */
+async function precacheFonts(cache) {
+  for (const url of PRECACHE.fonts) {
+    const response = await fetch(url);
+    if (!response.ok) continue;
+    const css = await response.clone().text();
+    await cache.put(url, response);
+    const latin = css.split(/(?=\/\* [\w-]+ \*\/)/).filter((block) => block.startsWith('/* latin */'));
+    const files = latin.flatMap((block) => [...block.matchAll(/url\((https:[^)]+)\)/g)].map((match) => match[1]));
+    await cache.addAll(files);
+  }
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE);
+      // Like cache.addAll, but shell pages are stored without their redirect.
+      // Search index chunks are left to handleAsset, so one failed chunk cannot fail the install.
+      await Promise.all(
+        PRECACHE.urls.map(async (url) => {
+          const response = await fetch(url);
+          if (!response.ok) throw new Error(`${url} answered ${response.status}`);
+          await cache.put(url, await storable(response));
+        }),
+      );
+      // Fonts are a nicety; without them the system fallbacks render fine.
+      await precacheFonts(cache).catch(() => {});
+      await self.skipWaiting();
+    })(),
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names.filter((name) => name.startsWith('sysdesign-shell-') && name !== SHELL_CACHE).map((name) => caches.delete(name)),
+      );
+      // Pages saved by an older worker were stored without the files they load.
+      const saved = await caches.open(SAVED_CACHE);
+      for (const request of await saved.keys()) {
+        const response = await saved.match(request);
+        if (isPage(response) && !response.headers.has(SUBRESOURCES_HEADER)) await savePage(request.url).catch(() => {});
+      }
+      await self.clients.claim();
+    })(),
+  );
+});
+
+// ── Fetch ────────────────────────────────────────────────────────────────────
+
+/** Network first so readers see the latest version; saved copies are refreshed on the way. */
+async function handleNavigation(event) {
+  const { request } = event;
+  const key = pageKey(request.url);
+  const saved = await caches.open(SAVED_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok && (await saved.match(key))) event.waitUntil(storePage(key, response.clone()).catch(() => {}));
+    return response;
+  } catch {
+    return (
+      (await saved.match(key)) ??
+      (await caches.match(key, { cacheName: SHELL_CACHE })) ??
+      (await caches.match(OFFLINE_PAGE, { cacheName: SHELL_CACHE })) ??
+      Response.error()
+    );
+  }
+}
+
+/** Cache first for files that never change under the same URL. */
+async function handleImmutable(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+/** Network first for shell files whose content changes under the same name, such as pagefind.js. */
+async function handleMutable(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch {
+    return (await caches.match(request)) ?? Response.error();
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(handleNavigation(event));
+  } else if (isImmutable(url)) {
+    event.respondWith(handleImmutable(request));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith('/pagefind/')) {
+    event.respondWith(handleMutable(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(fetch(request).catch(async () => (await caches.match(request)) ?? Response.error()));
+  }
+});
+
+// ── Saved pages ──────────────────────────────────────────────────────────────
+
+/** Same-origin scripts, stylesheets and images the page loads, diagrams included. */
+function subresources(html, pageUrl) {
+  const urls = new Set();
+  for (const [, url] of html.matchAll(/<(?:script|img|source)\b[^>]*\ssrc="([^"]+)"/g)) urls.add(url);
+  for (const [, url] of html.matchAll(/<link\b[^>]*\srel="(?:stylesheet|modulepreload|preload)"[^>]*\shref="([^"]+)"/g)) urls.add(url);
+  return [...urls]
+    .map((url) => new URL(url.replaceAll('&amp;', '&'), pageUrl))
+    .filter((url) => url.origin === self.location.origin)
+    .map((url) => url.href);
+}
+
+let savedCacheQueue = Promise.resolve();
+
+/** Runs changes to the saved cache one at a time, so a prune never sees another page half-stored. */
+function serialized(task) {
+  const run = savedCacheQueue.then(task);
+  savedCacheQueue = run.catch(() => {});
+  return run;
+}
+
+/**
+ * Stores a page in the saved cache together with every file it loads, so it
+ * still renders after a deploy has replaced the shell cache. The page entry
+ * lists its files in SUBRESOURCES_HEADER, which is how pruneSubresources
+ * knows what is still in use.
+ */
+function storePage(key, response) {
+  return serialized(() => storePageNow(key, response));
+}
+
+async function storePageNow(key, response) {
+  const html = await response.clone().text();
+  const urls = subresources(html, response.url || new URL(key, self.location.origin).href);
+  const saved = await caches.open(SAVED_CACHE);
+  const missing = [];
+  for (const url of urls) {
+    if (!(await saved.match(url))) missing.push(url);
+  }
+  await saved.addAll(missing);
+
+  const headers = new Headers(response.headers);
+  headers.set(SUBRESOURCES_HEADER, JSON.stringify(urls));
+  await saved.put(key, new Response(await response.blob(), { status: response.status, headers }));
+  await pruneSubresources(saved);
+}
+
+async function savePage(href) {
+  const key = pageKey(href);
+  const response = await fetch(key);
+  if (!response.ok) throw new Error(`${key} answered ${response.status}`);
+  await storePage(key, response);
+}
+
+/** Deletes saved files that no saved page loads any more. */
+async function pruneSubresources(saved) {
+  const requests = await saved.keys();
+  const entries = await Promise.all(requests.map(async (request) => [request, await saved.match(request)]));
+  const pages = entries.filter(([, response]) => isPage(response));
+  const needed = new Set(pages.flatMap(([, response]) => JSON.parse(response.headers.get(SUBRESOURCES_HEADER) ?? '[]')));
+  await Promise.all(
+    entries
+      .filter(([request, response]) => !isPage(response) && !needed.has(request.url))
+      .map(([request]) => saved.delete(request)),
+  );
+}
+
+function evictPage(href) {
+  return serialized(async () => {
+    const saved = await caches.open(SAVED_CACHE);
+    await saved.delete(pageKey(href));
+    await pruneSubresources(saved);
+  });
+}
+
+async function notify(message) {
+  for (const client of await self.clients.matchAll({ includeUncontrolled: true })) {
+    client.postMessage(message);
+  }
+}
+
+self.addEventListener('message', (event) => {
+  const { type, href } = event.data ?? {};
+  if (typeof href !== 'string') return;
+
+  if (type === 'save-page') {
+    event.waitUntil(
+      savePage(href)
+        .then(() => notify({ type: 'offline-page', href: pageKey(href), saved: true }))
+        .catch(() => notify({ type: 'offline-page', href: pageKey(href), saved: false, failed: true })),
+    );
+  } else if (type === 'evict-page') {
+    event.waitUntil(evictPage(href).then(() => notify({ type: 'offline-page', href: pageKey(href), saved: false })));
+  }
+});
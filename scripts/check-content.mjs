@@ -0,0 +1,280 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { JSDOM } from 'jsdom';
+import { parse as parseYaml } from 'yaml';
+
+/**
+ * Content integrity pass, run before every build.
+ *
+ * Fails on relationship and learning-path references that point at missing
+ * entries, on prerequisite cycles, on tags missing from the tag registry, on
+ * citations of undeclared sources, and on Mermaid charts that do not parse.
+ * The MDX schema in src/content.config.ts cannot catch these because it only
+ * sees one entry at a time. `<Scale>` figures without a source are warnings,
+ * so case studies can be sourced one at a time.
+ */
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const contentDir = join(root, 'src/content');
+const collectionNames = ['systems', 'guides', 'lessons'];
+
+// mermaid sanitises labels with DOMPurify, which only initialises with a window.
+const { window } = new JSDOM('');
+Object.assign(globalThis, { window, document: window.document });
+const { default: mermaid } = await import('mermaid');
+
+// Node strips the TypeScript types; this module must not use `@/` imports.
+const { extractComponents, extractSections } = await import('../src/lib/mdx-components.ts');
+const { resolveTag } = await import('../src/lib/tags.ts');
+
+/** @typedef {{ collection: string; id: string; file: string; data: Record<string, any>; body: string; bodyLine: number }} Entry */
+/** @typedef {{ file: string; field: string; message: string }} Issue */
+
+/** @returns {Promise<Entry[]>} */
+async function loadCollection(collection) {
+  const dir = join(contentDir, collection);
+  const files = (await readdir(dir)).filter((file) => file.endsWith('.mdx')).sort();
+
+  return Promise.all(
+    files.map(async (file) => {
+      const source = await readFile(join(dir, file), 'utf8');
+      const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+      const frontmatter = match?.[1] ?? '';
+      return {
+        collection,
+        id: file.replace(/\.mdx$/, ''),
+        file: relative(root, join(dir, file)),
+        data: parseYaml(frontmatter) ?? {},
+        body: source.slice(match?.[0].length ?? 0),
+        bodyLine: match ? match[0].split('\n').length - 1 : 0,
+      };
+    }),
+  );
+}
+
+async function loadPaths() {
+  const dir = join(contentDir, 'paths');
+  const files = (await readdir(dir)).filter((file) => file.endsWith('.yaml')).sort();
+
+  return Promise.all(
+    files.map(async (file) => ({
+      file: relative(root, join(dir, file)),
+      data: parseYaml(await readFile(join(dir, file), 'utf8')) ?? {},
+    })),
+  );
+}
+
+const entries = (await Promise.all(collectionNames.map(loadCollection))).flat();
+const paths = await loadPaths();
+const idsByCollection = Object.fromEntries(
+  collectionNames.map((name) => [name, new Set(entries.filter((entry) => entry.collection === name).map((entry) => entry.id))]),
+);
+const lessons = entries.filter((entry) => entry.collection === 'lessons');
+
+/** @type {Issue[]} */
+const issues = [];
+/** @type {Issue[]} */
+const warnings = [];
+
+// ── Cross-references ─────────────────────────────────────────────────────────
+
+const referenceFields = [
+  { field: 'relatedLessons', target: 'lessons' },
+  { field: 'relatedGuides', target: 'guides' },
+  { field: 'relatedSystems', target: 'systems' },
+  { field: 'prerequisites', target: 'lessons' },
+];
+
+for (const entry of entries) {
+  for (const { field, target } of referenceFields) {
+    for (const id of entry.data[field] ?? []) {
+      if (!idsByCollection[target].has(id)) {
+        issues.push({ file: entry.file, field, message: `unknown ${target} id "${id}"` });
+      }
+    }
+  }
+}
+
+const collectionByStepType = { lesson: 'lessons', guide: 'guides', system: 'systems' };
+
+for (const path of paths) {
+  (path.data.steps ?? []).forEach((step, index) => {
+    const target = collectionByStepType[step.type];
+    if (target && !idsByCollection[target].has(step.id)) {
+      issues.push({ file: path.file, field: `steps[${index}]`, message: `unknown ${target} id "${step.id}"` });
+    }
+  });
+}
+
+// ── Tags ─────────────────────────────────────────────────────────────────────
+
+for (const entry of entries) {
+  for (const tag of entry.data.tags ?? []) {
+    if (!resolveTag(String(tag))) {
+      issues.push({ file: entry.file, field: 'tags', message: `unknown tag "${tag}"; add it or an alias to src/lib/tags.ts` });
+    }
+  }
+}
+
+// ── Sources ──────────────────────────────────────────────────────────────────
+
+for (const entry of entries) {
+  const declared = (entry.data.sources ?? []).map((source) => source.id);
+  for (const id of declared.filter((id, index) => declared.indexOf(id) !== index)) {
+    issues.push({ file: entry.file, field: 'sources', message: `duplicate source id "${id}"` });
+  }
+
+  let cited;
+  try {
+    cited = extractComponents(entry.body, ['Cite', 'Source', 'Scale']);
+  } catch {
+    continue; // reported by the Mermaid check below
+  }
+
+  for (const { name, props, line } of cited) {
+    const field = `<${name}> line ${entry.bodyLine + line}`;
+    if (name !== 'Scale') {
+      const id = name === 'Cite' ? props.source : props.id;
+      if (!declared.includes(id)) issues.push({ file: entry.file, field, message: `unknown source "${id}"` });
+      continue;
+    }
+    const sources = props.sources ?? {};
+    for (const label of Object.keys(props.items ?? {})) {
+      if (!sources[label]) {
+        if (entry.collection === 'systems') warnings.push({ file: entry.file, field, message: `"${label}" has no source` });
+      } else if (!declared.includes(sources[label])) {
+        issues.push({ file: entry.file, field, message: `unknown source "${sources[label]}" for "${label}"` });
+      }
+    }
+  }
+}
+
+// ── Prerequisite cycles ──────────────────────────────────────────────────────
+
+const prerequisitesById = new Map(lessons.map((lesson) => [lesson.id, lesson.data.prerequisites ?? []]));
+const fileById = new Map(lessons.map((lesson) => [lesson.id, lesson.file]));
+const visited = new Set();
+const reportedCycles = new Set();
+
+function visit(id, stack) {
+  if (stack.includes(id)) {
+    const cycle = [...stack.slice(stack.indexOf(id)), id];
+    const key = [...cycle.slice(0, -1)].sort().join(',');
+    if (!reportedCycles.has(key)) {
+      reportedCycles.add(key);
+      issues.push({ file: fileById.get(id), field: 'prerequisites', message: `cycle ${cycle.join(' -> ')}` });
+    }
+    return;
+  }
+  if (visited.has(id)) return;
+  for (const next of prerequisitesById.get(id) ?? []) {
+    if (prerequisitesById.has(next)) visit(next, [...stack, id]);
+  }
+  visited.add(id);
+}
+
+for (const lesson of lessons) visit(lesson.id, []);
+
+// ── Prompt structure ─────────────────────────────────────────────────────────
+// The copy-as-prompt buttons rebuild each page from these pieces, so an entry
+// missing one would silently produce a prompt with a hole in it. This is the
+// fast pre-build guard; src/lib/prompt-generator.test.ts checks the prompts.
+
+const requiredStructure = {
+  systems: { sections: ['Overview'], components: ['Scale', 'Requirements', 'ComponentCard', 'Tradeoff'] },
+  guides: { sections: ['The Problem'], components: ['Approach', 'ComponentCard', 'Tradeoff'] },
+};
+
+for (const entry of entries) {
+  const required = requiredStructure[entry.collection];
+  if (!required) continue;
+  let sections, components;
+  try {
+    sections = extractSections(entry.body);
+    components = extractComponents(entry.body, required.components);
+  } catch {
+    continue; // reported by the Mermaid check below
+  }
+
+  for (const heading of required.sections) {
+    if (!sections.some((section) => section.heading === heading && section.content.trim())) {
+      issues.push({ file: entry.file, field: 'body', message: `missing "## ${heading}" section` });
+    }
+  }
+  for (const name of required.components) {
+    if (!components.some((component) => component.name === name && Object.keys(component.props).length > 0)) {
+      issues.push({ file: entry.file, field: 'body', message: `no <${name}> with literal props` });
+    }
+  }
+}
+
+// ── Mermaid charts ───────────────────────────────────────────────────────────
+
+for (const entry of entries) {
+  let charts;
+  try {
+    charts = extractComponents(entry.body, ['Mermaid']);
+  } catch (error) {
+    issues.push({ file: entry.file, field: 'body', message: `could not parse MDX: ${error.message}` });
+    continue;
+  }
+
+  for (const chart of charts) {
+    const field = `<Mermaid> line ${entry.bodyLine + chart.line}`;
+    if (typeof chart.props.chart !== 'string') {
+      issues.push({ file: entry.file, field, message: 'missing chart prop' });
+      continue;
+    }
+    try {
+      await mermaid.parse(chart.props.chart);
+    } catch (error) {
+      const lines = String(error.message ?? error).split('\n');
+      issues.push({ file: entry.file, field, message: [lines[0], lines[lines.length - 1]].join(' ') });
+    }
+  }
+}
+
+// ── Diagram anchors ──────────────────────────────────────────────────────────
+// Repeated charts get numbered anchors automatically, but an explicit id is a
+// promise that links to it land on that one figure.
+
+for (const entry of entries) {
+  let diagrams;
+  try {
+    diagrams = extractComponents(entry.body, ['Mermaid', 'Diagram']);
+  } catch {
+    continue; // reported by the Mermaid check above
+  }
+
+  const seen = new Map();
+  for (const { name, props, line } of diagrams) {
+    if (typeof props.id !== 'string') continue;
+    const field = `<${name}> line ${entry.bodyLine + line}`;
+    if (seen.has(props.id)) {
+      issues.push({ file: entry.file, field, message: `id "${props.id}" is already used on line ${seen.get(props.id)}` });
+    } else {
+      seen.set(props.id, entry.bodyLine + line);
+    }
+  }
+}
+
+// ── Report ───────────────────────────────────────────────────────────────────
+
+if (warnings.length > 0) {
+  console.warn(`${warnings.length} warning${warnings.length === 1 ? '' : 's'}:\n`);
+  for (const { file, field, message } of warnings) {
+    console.warn(`  ${file}  ${field}: ${message}`);
+  }
+  console.warn('');
+}
+
+if (issues.length > 0) {
+  console.error(`Content check failed with ${issues.length} issue${issues.length === 1 ? '' : 's'}:\n`);
+  for (const { file, field, message } of issues) {
+    console.error(`  ${file}  ${field}: ${message}`);
+  }
+  process.exit(1);
+}
+
+console.log(`Content check passed (${entries.length} entries).`);
@@ -0,0 +1,86 @@
+import { access, readdir, readFile } from 'node:fs/promises';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * Open Graph pass over the built site, run after every build.
+ *
+ * Fails when a page's og:image points at a file that was not built, when a
+ * page ignores the card rendered for its own URL (/og/lessons/crdt.png for
+ * /lessons/crdt), and when a page in a section that has cards falls back to
+ * the site-wide one. New routes therefore need a card in src/lib/og-images.ts
+ * or an explicit `ogImage` before they can ship.
+ */
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const clientDir = join(root, 'dist/client');
+const defaultImage = '/og/default.png';
+
+async function exists(file) {
+  try {
+    await access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** @returns {Promise<string[]>} */
+async function htmlFiles(dir) {
+  const found = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) found.push(...(await htmlFiles(path)));
+    else if (entry.name.endsWith('.html')) found.push(path);
+  }
+  return found;
+}
+
+if (!(await exists(clientDir))) {
+  console.error('OG check needs a build: run `astro build` first.');
+  process.exit(1);
+}
+
+// Every directory under /og holds per-page cards for the section of the same name.
+const sections = (await readdir(join(clientDir, 'og'), { withFileTypes: true }))
+  .filter((entry) => entry.isDirectory())
+  .map((entry) => entry.name);
+
+/** @type {{ page: string; message: string }[]} */
+const issues = [];
+const pages = (await htmlFiles(clientDir))
+  .map((file) => ({ file, page: `/${relative(clientDir, file)}`.replace(/(\/?index)?\.html$/, '') || '/' }))
+  .filter(({ page }) => page !== '/404')
+  .sort((a, b) => a.page.localeCompare(b.page));
+
+for (const { file, page } of pages) {
+  const html = await readFile(file, 'utf8');
+  const content = html.match(/<meta property="og:image" content="([^"]+)"/)?.[1];
+  if (!content) {
+    issues.push({ page, message: 'no og:image' });
+    continue;
+  }
+
+  const image = new URL(content, 'https://example.invalid').pathname;
+  if (!(await exists(join(clientDir, image)))) {
+    issues.push({ page, message: `og:image ${image} was not built` });
+    continue;
+  }
+
+  const own = `/og${page}.png`;
+  if (page !== '/' && image !== own && (await exists(join(clientDir, own)))) {
+    issues.push({ page, message: `uses ${image} instead of its own card ${own}` });
+  } else if (image === defaultImage && sections.includes(page.split('/')[1])) {
+    issues.push({ page, message: `falls back to ${defaultImage}; add a card in src/lib/og-images.ts` });
+  }
+}
+
+if (issues.length > 0) {
+  console.error(`OG check failed with ${issues.length} issue${issues.length === 1 ? '' : 's'}:\n`);
+  for (const { page, message } of issues) {
+    console.error(`  ${page}: ${message}`);
+  }
+  process.exit(1);
+}
+
+console.log(`OG check passed (${pages.length} pages).`);
@@ -0,0 +1,107 @@
+import { execFileSync } from 'node:child_process';
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parse as parseYaml } from 'yaml';
+
+/**
+ * Collects the git history of every content entry, so pages can show when
+ * they were published and last changed without anyone maintaining dates by
+ * hand. Runs before dev and build; `published` and `lastReviewed` in
+ * frontmatter take precedence, see src/lib/freshness.ts.
+ *
+ * Commit subjects are written for reviewers, not readers, so the changelog
+ * only takes what a commit states for readers in a `Changelog:` trailer:
+ *
+ *   Fix the fan-out numbers in the Discord case study
+ *
+ *   Changelog: Corrected the message fan-out estimate
+ *
+ * Output is a generated module keyed by reading id ("systems/discord"). It
+ * also carries each entry's resolved last-modified date for the sitemap in
+ * astro.config.mjs, which cannot read the content collections. Without git
+ * (e.g. a source tarball) or with only part of it (a shallow clone, where
+ * the oldest commit fetched seems to add every file) every history is empty
+ * and pages fall back to their frontmatter.
+ */
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const contentDir = join(root, 'src/content');
+const outputFile = join(root, 'src/lib/content-history.generated.ts');
+const collectionNames = ['systems', 'guides', 'lessons'];
+
+// Record separator between commits and unit separator between trailers; git never puts either in a commit.
+const SEPARATOR = '\x1e';
+const TRAILER_SEPARATOR = '\x1f';
+
+function git(args) {
+  return execFileSync('git', args, { cwd: root, encoding: 'utf8', maxBuffer: 64 * 1024 * 1024 });
+}
+
+/** @returns {Map<string, { date: string; changelog: string[] }[]>} newest commit first, per repo-relative file */
+function readGitLog() {
+  const commits = new Map();
+  let log = '';
+  try {
+    if (git(['rev-parse', '--is-shallow-repository']).trim() === 'true') {
+      console.warn('git history is shallow; content dates fall back to frontmatter. Run `git fetch --unshallow` for full history.');
+      return commits;
+    }
+    log = git([
+      'log',
+      `--format=${SEPARATOR}%aI%x09%(trailers:key=Changelog,valueonly,unfold,separator=%x1f)`,
+      '--name-only',
+      '--',
+      'src/content',
+    ]);
+  } catch {
+    console.warn('git history unavailable; content dates fall back to frontmatter.');
+    return commits;
+  }
+
+  for (const chunk of log.split(SEPARATOR).slice(1)) {
+    const [header, ...files] = chunk.trim().split('\n');
+    const [date, trailers = ''] = header.split('\t');
+    const changelog = trailers.split(TRAILER_SEPARATOR).map((note) => note.trim()).filter(Boolean);
+    for (const file of files.filter(Boolean)) {
+      if (!commits.has(file)) commits.set(file, []);
+      commits.get(file).push({ date, changelog });
+    }
+  }
+  return commits;
+}
+
+function latest(...dates) {
+  return dates.filter(Boolean).map((date) => new Date(date)).sort((a, b) => b.getTime() - a.getTime())[0];
+}
+
+const log = readGitLog();
+const history = {};
+
+for (const collection of collectionNames) {
+  const files = (await readdir(join(contentDir, collection))).filter((file) => file.endsWith('.mdx')).sort();
+  for (const file of files) {
+    const source = await readFile(join(contentDir, collection, file), 'utf8');
+    const frontmatter = parseYaml(source.match(/^---\r?\n([\s\S]*?)\r?\n---/)?.[1] ?? '') ?? {};
+    const commits = log.get(`src/content/${collection}/${file}`) ?? [];
+    const updated = latest(frontmatter.lastReviewed, commits[0]?.date);
+    history[`${collection}/${file.replace(/\.mdx$/, '')}`] = {
+      updated: updated?.toISOString(),
+      commits,
+    };
+  }
+}
+
+const source = `// Generated by scripts/generate-content-history.mjs. Do not edit.
+export interface ContentCommit {
+  /** ISO 8601 author date. */
+  date: string;
+  /** Reader-facing notes from the commit's \`Changelog:\` trailers; usually none. */
+  changelog: string[];
+}
+
+export const contentHistory: Record<string, { updated?: string; commits: ContentCommit[] }> = ${JSON.stringify(history, null, 2)};
+`;
+
+await writeFile(outputFile, source);
+console.log(`Wrote ${outputFile} (${Object.keys(history).length} entries)`);
@@ -0,0 +1,106 @@
+import { createHash } from 'node:crypto';
+import { access, readdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * Fills in the service worker's precache list, run after every build.
+ *
+ * public/sw.js is copied into the build as-is; this replaces its
+ * `self.__PRECACHE_MANIFEST` placeholder with what the offline shell needs:
+ * the shell pages, every hashed asset that built pages load (following static
+ * imports between chunks, not lazy ones such as the in-browser Mermaid
+ * renderer), the Pagefind entry files, icons, and the font stylesheet. The
+ * version is a hash of those files' contents, so each deploy that changes any
+ * of them gets a fresh cache. Pagefind's index and fragment chunks are left
+ * out: there are hundreds of them, and the worker caches each one on first use.
+ */
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const clientDir = join(root, 'dist/client');
+const workerFile = join(clientDir, 'sw.js');
+const PLACEHOLDER = 'self.__PRECACHE_MANIFEST';
+
+/** Pages that make up the offline shell; reading-list pages are cached on demand. */
+const shellPages = ['/', '/reading-list', '/offline'];
+const staticFiles = ['/manifest.webmanifest', '/favicon.svg', '/icon-192.png', '/icon-512.png'];
+
+async function exists(file) {
+  try {
+    await access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** @returns {Promise<string[]>} */
+async function listFiles(dir) {
+  const found = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) found.push(...(await listFiles(path)));
+    else found.push(path);
+  }
+  return found;
+}
+
+const toUrl = (file) => `/${relative(clientDir, file).split('\\').join('/')}`;
+
+if (!(await exists(workerFile))) {
+  console.error('Service worker generation needs a build: run `astro build` first.');
+  process.exit(1);
+}
+
+const files = await listFiles(clientDir);
+const htmlFiles = files.filter((file) => file.endsWith('.html'));
+
+// Assets referenced from any page, then everything they import statically.
+const assets = new Set();
+for (const file of htmlFiles) {
+  for (const [url] of (await readFile(file, 'utf8')).matchAll(/\/_astro\/[\w.-]+/g)) assets.add(url);
+}
+const queue = [...assets];
+while (queue.length > 0) {
+  const url = queue.pop();
+  if (!/\.(js|css)$/.test(url)) continue;
+  const source = await readFile(join(clientDir, url), 'utf8').catch(() => '');
+  const imports = [
+    ...source.matchAll(/(?:\bfrom|\bimport)\s*["'](\.\/[\w.-]+)["']/g),
+    ...source.matchAll(/url\(["']?(\/_astro\/[\w.-]+)["']?\)/g),
+  ];
+  for (const [, specifier] of imports) {
+    const resolved = new URL(specifier, `https://build.invalid${url}`).pathname;
+    if (!assets.has(resolved)) {
+      assets.add(resolved);
+      queue.push(resolved);
+    }
+  }
+}
+
+// Only the top-level files; index/ and fragment/ hold the per-term chunks.
+const pagefind = files.map(toUrl).filter((url) => /^\/pagefind\/[^/]+$/.test(url));
+const homepage = await readFile(join(clientDir, 'index.html'), 'utf8');
+const fonts = [...homepage.matchAll(/href="(https:\/\/fonts\.googleapis\.com\/css2[^"]+)"/g)].map(([, url]) => url.replaceAll('&amp;', '&'));
+
+const missing = [...assets, ...staticFiles].filter((url) => !files.includes(join(clientDir, url)));
+const missingPages = shellPages.filter((page) => !htmlFiles.includes(join(clientDir, page, 'index.html')));
+if (missing.length > 0 || missingPages.length > 0) {
+  console.error(`Service worker precache points at files that were not built:\n\n  ${[...missingPages, ...missing].join('\n  ')}`);
+  process.exit(1);
+}
+
+const urls = [...shellPages, ...staticFiles, ...[...assets].sort(), ...pagefind.sort()];
+const hash = createHash('sha256').update(JSON.stringify({ urls, fonts }));
+for (const url of urls) {
+  hash.update(await readFile(shellPages.includes(url) ? join(clientDir, url, 'index.html') : join(clientDir, url)));
+}
+const version = hash.digest('hex').slice(0, 12);
+
+const worker = await readFile(workerFile, 'utf8');
+if (!worker.includes(PLACEHOLDER)) {
+  console.error(`${relative(root, workerFile)} has no ${PLACEHOLDER} placeholder; was it already generated?`);
+  process.exit(1);
+}
+await writeFile(workerFile, worker.replace(PLACEHOLDER, JSON.stringify({ version, urls, fonts })));
+console.log(`Service worker precaches ${urls.length} files (version ${version}).`);
@@ -0,0 +1,113 @@
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import puppeteer from 'puppeteer';
+
+/**
+ * Renders every `<Mermaid chart>` in the content collections to SVG with
+ * headless Chrome, so pages ship static diagrams instead of the mermaid
+ * library. Runs before every build; a chart that fails to render fails the
+ * build with its file and line. Dev skips it, since it needs Chrome, and
+ * renders charts missing from the module in the browser instead.
+ *
+ * Output is a generated module keyed by chart source, read by
+ * src/components/mdx/Mermaid.astro. Each entry carries the diagram's label
+ * text as well, because Pagefind does not index inside `<svg>`.
+ */
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const contentDir = join(root, 'src/content');
+const outputFile = join(root, 'src/lib/mermaid-svgs.generated.ts');
+const fontFile = join(root, 'src/assets/fonts/ibm-plex-sans-400.ttf');
+const collectionNames = ['systems', 'guides', 'lessons'];
+
+// Node strips the TypeScript types; these modules must not use `@/` imports.
+const { extractComponents } = await import('../src/lib/mdx-components.ts');
+const { mermaidConfig, MERMAID_ID_PLACEHOLDER } = await import('../src/lib/mermaid-config.ts');
+
+/** @returns {Promise<{ chart: string; where: string }[]>} */
+async function collectCharts() {
+  const charts = [];
+  for (const collection of collectionNames) {
+    const dir = join(contentDir, collection);
+    const files = (await readdir(dir)).filter((file) => file.endsWith('.mdx')).sort();
+    for (const file of files) {
+      const source = await readFile(join(dir, file), 'utf8');
+      const match = source.match(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/);
+      const bodyLine = match ? match[0].split('\n').length - 1 : 0;
+      for (const component of extractComponents(source.slice(match?.[0].length ?? 0), ['Mermaid'])) {
+        if (typeof component.props.chart !== 'string') continue;
+        charts.push({
+          chart: component.props.chart,
+          where: `${relative(root, join(dir, file))}:${bodyLine + component.line}`,
+        });
+      }
+    }
+  }
+  return charts;
+}
+
+// Labels are measured in the page, so it needs the site's body font.
+async function fontFace() {
+  try {
+    const font = (await readFile(fontFile)).toString('base64');
+    return `@font-face { font-family: "IBM Plex Sans"; font-weight: 400; src: url(data:font/ttf;base64,${font}) format("truetype"); }`;
+  } catch {
+    console.warn(`${relative(root, fontFile)} is missing; run generate:og-fonts first for accurate label widths.`);
+    return '';
+  }
+}
+
+const charts = await collectCharts();
+const unique = [...new Map(charts.map((entry) => [entry.chart, entry])).values()];
+
+const browser = await puppeteer.launch({ headless: 'shell', args: ['--no-sandbox'] });
+const rendered = {};
+const failures = [];
+
+try {
+  const page = await browser.newPage();
+  await page.setContent(`<!doctype html><html><head><style>${await fontFace()}</style></head><body><div id="stage"></div></body></html>`);
+  await page.addScriptTag({ path: join(root, 'node_modules/mermaid/dist/mermaid.min.js') });
+  await page.evaluate(async (config) => {
+    await document.fonts.load('13px "IBM Plex Sans"');
+    window.mermaid.initialize(config);
+  }, mermaidConfig);
+
+  for (const { chart, where } of unique) {
+    try {
+      rendered[chart] = await page.evaluate(
+        async (source, id) => {
+          const { svg } = await window.mermaid.render(id, source);
+          const stage = document.getElementById('stage');
+          stage.innerHTML = svg;
+          const element = stage.querySelector('svg');
+          element.style.maxWidth = '100%';
+          element.style.height = 'auto';
+          const labels = [...element.querySelectorAll('.nodeLabel, .edgeLabel, .cluster-label, text')]
+            .map((label) => label.textContent.trim())
+            .filter(Boolean);
+          return { svg: element.outerHTML, labels: [...new Set(labels)].join(' · ') };
+        },
+        chart,
+        MERMAID_ID_PLACEHOLDER,
+      );
+    } catch (error) {
+      const message = String(error.message ?? error).split('\n').slice(0, 4).join('\n    ');
+      failures.push(`  ${where}: ${message}`);
+    }
+  }
+} finally {
+  await browser.close();
+}
+
+if (failures.length > 0) {
+  console.error(`Mermaid rendering failed for ${failures.length} chart(s):\n${failures.join('\n')}`);
+  process.exit(1);
+}
+
+await writeFile(
+  outputFile,
+  `// Generated by scripts/render-mermaid.mjs. Do not edit.\nexport const mermaidSvgs: Record<string, { svg: string; labels: string }> = ${JSON.stringify(rendered)};\n`,
+);
+console.log(`Rendered ${unique.length} Mermaid charts to ${relative(root, outputFile)}`);
@@ -1,6 +1,8 @@
 export { default as Mermaid } from './Mermaid.astro';
 export { default as Diagram } from './Diagram.astro';
 export { default as Scale } from './Scale.astro';
+export { default as Cite } from './Cite.astro';
+export { default as Source } from './Source.astro';
 export { default as ComponentList } from './ComponentList.astro';
 export { default as ComponentCard } from './ComponentCard.astro';
 export { default as Requirements } from './Requirements.astro';
@@ -8,3 +10,8 @@ export { default as Tradeoff } from './Tradeoff.astro';
 export { default as ApproachList } from './ApproachList.astro';
 export { default as Approach } from './Approach.astro';
 export { default as Example } from './Example.astro';
+export { default as BloomFilterPlayground } from './BloomFilterPlayground.astro';
+export { default as CrdtPlayground } from './CrdtPlayground.astro';
+export { default as HashRing } from './HashRing.astro';
+export { default as TrafficSim } from './TrafficSim.astro';
+export { default as CapacityCalculator } from './CapacityCalculator.astro';
@@ -0,0 +1,77 @@
+import { OgBackground } from '@/components/og/OgBackground';
+import { OgBranding } from '@/components/og/OgBranding';
+import { OgLabel } from '@/components/og/OgLabel';
+import { OgTagList } from '@/components/og/OgTagList';
+import { og, ogTitleSize } from '@/components/og/og-tokens';
+
+interface SectionOgImageProps {
+  label: string;
+  title: string;
+  description: string;
+  /** Shown as chips along the bottom, e.g. categories or step titles. */
+  chips?: string[];
+  /** Short count line in the bottom corner, e.g. "42 concepts". */
+  stat?: string;
+}
+
+/** Card for pages that list content rather than hold it: index pages, learning paths and tags. */
+export function SectionOgImage({ label, title, description, chips = [], stat }: SectionOgImageProps) {
+  const titleSize = ogTitleSize(title, og.titleXl, og.titleLg, og.titleMd);
+
+  return (
+    <div
+      tw="flex flex-col relative overflow-hidden"
+      style={{
+        width: og.width,
+        height: og.height,
+        backgroundColor: og.paper,
+        fontFamily: og.sans,
+      }}
+    >
+      <OgBackground />
+      <div
+        tw="flex flex-col justify-between flex-1 relative"
+        style={{ padding: `${og.padY}px ${og.padX}px` }}
+      >
+        <OgBranding />
+        <div tw="flex flex-col" style={{ gap: 24, maxWidth: 1000 }}>
+          <OgLabel>{label}</OgLabel>
+          <h1
+            tw="font-bold m-0"
+            style={{
+              fontFamily: og.serif,
+              fontSize: titleSize,
+              color: og.ink,
+              lineHeight: 1.06,
+              letterSpacing: '-0.02em',
+            }}
+          >
+            {title}
+          </h1>
+          <p
+            tw="m-0"
+            style={{
+              fontSize: og.body,
+              color: og.inkLight,
+              lineHeight: 1.38,
+              maxWidth: 900,
+            }}
+          >
+            {description}
+          </p>
+        </div>
+        <div tw="flex justify-between items-end" style={{ gap: 20 }}>
+          <OgTagList tags={chips.slice(0, 4)} />
+          {stat && (
+            <div
+              tw="font-semibold shrink-0"
+              style={{ fontSize: og.footer, color: og.inkMuted, letterSpacing: '0.04em' }}
+            >
+              {stat}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
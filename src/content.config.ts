@@ -1,6 +1,48 @@
 import { defineCollection } from 'astro:content';
 import { glob } from 'astro/loaders';
 import { z } from 'astro/zod';
+import { canonicalTags } from '@/lib/tags';
+
+// Tags may be written in any registered spelling; entries always see the canonical names.
+const tags = z.array(z.string()).transform(canonicalTags);
+
+// Optional: without them, dates come from git (see src/lib/freshness.ts).
+const published = z.coerce.date().optional();
+const lastReviewed = z.coerce.date().optional();
+// Reader-facing notes on notable changes; commits add theirs with a `Changelog:` trailer.
+const changelog = z.array(z.object({ date: z.coerce.date(), note: z.string().min(1) })).default([]);
+
+// Lens fields left out fall back to the category's lens in src/lib/lenses.ts.
+const guideLens = z
+  .object({
+    defaultModel: z.string(),
+    costDrivers: z.array(z.string()).min(1),
+    breakpoints: z.array(z.string()).min(1),
+  })
+  .partial();
+
+const systemLens = z
+  .object({
+    evidence: z.enum(['published', 'mixed', 'inferred']),
+    focus: z.string(),
+    constraints: z.array(z.string()).min(1),
+    costDrivers: z.array(z.string()).min(1),
+  })
+  .partial();
+
+// Cited from the body with <Cite>, <Source> and <Scale sources>; see src/lib/citations.ts.
+const sources = z
+  .array(
+    z.object({
+      id: z.string(),
+      title: z.string(),
+      url: z.url().optional(),
+      publisher: z.string().optional(),
+      year: z.number().int().optional(),
+      level: z.enum(['blog', 'talk', 'inference']),
+    }),
+  )
+  .default([]);
 
 const systems = defineCollection({
   loader: glob({ pattern: '**/*.mdx', base: './src/content/systems' }),
@@ -8,7 +50,15 @@ const systems = defineCollection({
     name: z.string(),
     tagline: z.string(),
     category: z.enum(['messaging', 'social', 'streaming', 'transport', 'search', 'commerce', 'infra', 'video', 'devtools', 'ai', 'productivity']),
-    tags: z.array(z.string()),
+    tags,
+    published,
+    lastReviewed,
+    changelog,
+    lens: systemLens.optional(),
+    sources,
+    relatedLessons: z.array(z.string()).default([]),
+    relatedGuides: z.array(z.string()).default([]),
+    relatedSystems: z.array(z.string()).default([]),
   }),
 });
 
@@ -18,7 +68,14 @@ const guides = defineCollection({
     title: z.string(),
     tagline: z.string(),
     category: z.enum(['real-time', 'platform', 'data', 'reliability', 'security', 'media', 'collaboration']),
-    tags: z.array(z.string()),
+    tags,
+    published,
+    lastReviewed,
+    changelog,
+    lens: guideLens.optional(),
+    relatedLessons: z.array(z.string()).default([]),
+    relatedGuides: z.array(z.string()).default([]),
+    relatedSystems: z.array(z.string()).default([]),
   }),
 });
 
@@ -41,11 +98,34 @@ const lessons = defineCollection({
     ]),
     level: z.enum(['foundational', 'intermediate', 'advanced']),
     timeMinutes: z.number(),
-    tags: z.array(z.string()),
+    tags,
+    published,
+    lastReviewed,
+    changelog,
+    relatedLessons: z.array(z.string()).default([]),
     relatedGuides: z.array(z.string()).default([]),
     relatedSystems: z.array(z.string()).default([]),
     prerequisites: z.array(z.string()).default([]),
   }),
 });
 
-export const collections = { systems, guides, lessons };
+const paths = defineCollection({
+  loader: glob({ pattern: '**/*.yaml', base: './src/content/paths' }),
+  schema: z.object({
+    title: z.string(),
+    tagline: z.string(),
+    order: z.number(),
+    timeMinutes: z.number(),
+    steps: z
+      .array(
+        z.object({
+          type: z.enum(['lesson', 'guide', 'system']),
+          id: z.string(),
+          note: z.string().optional(),
+        }),
+      )
+      .min(1),
+  }),
+});
+
+export const collections = { systems, guides, lessons, paths };
@@ -0,0 +1,27 @@
+// Bindings from wrangler.jsonc used by on-demand routes. Typed by hand because
+// the globals emitted by `wrangler types` clash with the DOM types that the
+// client scripts rely on.
+declare module 'cloudflare:workers' {
+  export interface D1PreparedStatement {
+    bind(...values: unknown[]): D1PreparedStatement;
+    first<T = Record<string, unknown>>(): Promise<T | null>;
+    run(): Promise<{ meta: { changes: number } }>;
+  }
+
+  export interface D1Database {
+    prepare(query: string): D1PreparedStatement;
+  }
+
+  export const env: {
+    PROGRESS?: D1Database;
+  };
+}
+
+declare namespace App {
+  interface Locals {
+    /** Footnote numbers for the page's MDX citations, set by the page before `<Content />` renders. */
+    citations?: import('@/lib/citations').CitationIndex;
+    /** How often each id has been handed out on the page; see src/lib/page-ids.ts. */
+    pageIds?: Map<string, number>;
+  }
+}
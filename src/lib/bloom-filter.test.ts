@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addItem,
+  createBloomFilter,
+  expectedFalsePositiveRate,
+  fillRatio,
+  measuredFalsePositiveRate,
+  mightContain,
+  optimalK,
+  resize,
+} from '@/lib/bloom-filter';
+
+const items = (n: number) => Array.from({ length: n }, (_, i) => `item-${i}`);
+const filled = (m: number, k: number, n: number) => items(n).reduce(addItem, createBloomFilter(m, k));
+
+describe('bloom filter', () => {
+  it('rejects non-positive sizes', () => {
+    expect(() => createBloomFilter(0, 3)).toThrow(RangeError);
+    expect(() => createBloomFilter(64, 1.5)).toThrow(RangeError);
+  });
+
+  it('never reports an added item as absent', () => {
+    for (const [m, k] of [[16, 1], [64, 3], [256, 7], [1024, 12]]) {
+      const filter = filled(m, k, 200);
+      for (const item of filter.items) expect(mightContain(filter, item)).toBe(true);
+    }
+  });
+
+  it('keeps every item when resized', () => {
+    const filter = resize(filled(64, 3, 50), 512, 5);
+    expect(filter.items).toHaveLength(50);
+    for (const item of filter.items) expect(mightContain(filter, item)).toBe(true);
+  });
+
+  it('does not mutate the filter it adds to', () => {
+    const empty = createBloomFilter(64, 3);
+    addItem(empty, 'x');
+    expect(fillRatio(empty)).toBe(0);
+    expect(empty.items).toEqual([]);
+  });
+
+  // Fill and false positives follow from m, k and n: a bit stays clear with
+  // probability e^(−kn/m), and a false positive needs all k bits set.
+  it.each([
+    [1024, 3, 100],
+    [1024, 7, 100],
+    [512, 4, 100],
+    [2048, 2, 400],
+  ])('matches the expected rates for m=%i, k=%i, n=%i', (m, k, n) => {
+    const filter = filled(m, k, n);
+    const expectedFill = 1 - Math.exp((-k * n) / m);
+    const expectedRate = expectedFalsePositiveRate(m, k, n);
+    const probes = 20_000;
+    // Three standard errors of the sampled rate, plus slack for the estimate itself.
+    const tolerance = 3 * Math.sqrt((expectedRate * (1 - expectedRate)) / probes) + expectedRate * 0.25;
+
+    expect(fillRatio(filter)).toBeCloseTo(expectedFill, 1);
+    expect(Math.abs(measuredFalsePositiveRate(filter, probes) - expectedRate)).toBeLessThan(tolerance);
+  });
+
+  it('picks the k that minimises the expected rate', () => {
+    const m = 1024;
+    const n = 100;
+    const best = optimalK(m, n);
+    for (const k of [best - 2, best - 1, best + 1, best + 2]) {
+      expect(expectedFalsePositiveRate(m, best, n)).toBeLessThanOrEqual(expectedFalsePositiveRate(m, k, n));
+    }
+    expect(optimalK(m, 0)).toBe(1);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Bloom filter simulation behind `<BloomFilterPlayground>`. Pure and
+ * immutable: every operation returns a new filter, so the component can
+ * rebuild from its item list whenever m or k changes.
+ */
+
+import { fnv1a } from '@/lib/hash';
+
+export interface BloomFilter {
+  /** Number of bits. */
+  m: number;
+  /** Number of hash functions. */
+  k: number;
+  bits: boolean[];
+  /** Items added so far, in insertion order. */
+  items: string[];
+}
+
+export function createBloomFilter(m: number, k: number): BloomFilter {
+  if (!Number.isInteger(m) || m < 1) throw new RangeError(`m must be a positive integer, got ${m}`);
+  if (!Number.isInteger(k) || k < 1) throw new RangeError(`k must be a positive integer, got ${k}`);
+  return { m, k, bits: new Array<boolean>(m).fill(false), items: [] };
+}
+
+/**
+ * The k bit positions for an item, using Kirsch–Mitzenmacher double hashing:
+ * position i is h1 + i·h2 mod m, which behaves like k independent hashes.
+ */
+export function bitPositions(item: string, m: number, k: number): number[] {
+  const h1 = fnv1a(item, 0);
+  const h2 = fnv1a(item, 0x5bd1e995) | 1;
+  return Array.from({ length: k }, (_, i) => (h1 + Math.imul(i, h2)) >>> 0).map((hash) => hash % m);
+}
+
+export function addItem(filter: BloomFilter, item: string): BloomFilter {
+  const bits = [...filter.bits];
+  for (const position of bitPositions(item, filter.m, filter.k)) bits[position] = true;
+  return { ...filter, bits, items: [...filter.items, item] };
+}
+
+export function mightContain(filter: BloomFilter, item: string): boolean {
+  return bitPositions(item, filter.m, filter.k).every((position) => filter.bits[position]);
+}
+
+/** Rebuilds a filter with new parameters from the same items. */
+export function resize(filter: BloomFilter, m: number, k: number): BloomFilter {
+  return filter.items.reduce(addItem, createBloomFilter(m, k));
+}
+
+export function fillRatio(filter: BloomFilter): number {
+  return filter.bits.filter(Boolean).length / filter.m;
+}
+
+/** Textbook estimate (1 − e^(−kn/m))^k for n inserted items. */
+export function expectedFalsePositiveRate(m: number, k: number, n: number): number {
+  return Math.pow(1 - Math.exp((-k * n) / m), k);
+}
+
+/** The k that minimises the false-positive rate for n items in m bits. */
+export function optimalK(m: number, n: number): number {
+  return n === 0 ? 1 : Math.max(1, Math.round((m / n) * Math.LN2));
+}
+
+/**
+ * False-positive rate measured against `probes` strings that were never
+ * added: the share the filter wrongly reports as maybe present.
+ */
+export function measuredFalsePositiveRate(filter: BloomFilter, probes = 1000): number {
+  const added = new Set(filter.items);
+  let tested = 0;
+  let falsePositives = 0;
+  for (let i = 0; tested < probes; i++) {
+    const probe = `probe-${i}`;
+    if (added.has(probe)) continue;
+    tested++;
+    if (mightContain(filter, probe)) falsePositives++;
+  }
+  return falsePositives / probes;
+}
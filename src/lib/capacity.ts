@@ -0,0 +1,198 @@
+/**
+ * Back-of-the-envelope capacity model shared by `<Scale>`, `<CapacityCalculator>`,
+ * the /tools/estimate page and the estimate prompt. Numbers in, numbers out:
+ * formatting lives here too so every surface rounds the same way.
+ */
+
+export type ScalePeriod = 'second' | 'day' | 'month' | 'year';
+
+/** A numeric Scale figure, as opposed to free text like "Billions". */
+export interface ScaleMetric {
+  value: number;
+  /** What is counted, e.g. "users" or "messages". `bytes` formats as storage. */
+  unit?: string;
+  per?: ScalePeriod;
+  /** `at-least` renders "4B+", `about` renders "~4B". */
+  approx?: 'at-least' | 'about';
+}
+
+export type ScaleValue = string | ScaleMetric;
+
+export interface CapacityAssumptions {
+  dailyActiveUsers: number;
+  /** Requests each active user makes per day. */
+  requestsPerUser: number;
+  /** Peak-hour load relative to the daily average. */
+  peakFactor: number;
+  /** Share of requests that write new data, 0–1. */
+  writeShare: number;
+  /** Bytes stored per write. */
+  bytesPerWrite: number;
+  /** Bytes sent back per request. */
+  bytesPerResponse: number;
+  /** Copies kept of every stored byte. */
+  replication: number;
+  /** Share of a day's read volume worth keeping hot in cache, 0–1. */
+  cacheShare: number;
+}
+
+export interface CapacityEstimate {
+  averageQps: number;
+  peakQps: number;
+  readQps: number;
+  writeQps: number;
+  /** Bytes per day, before replication. */
+  storagePerDay: number;
+  /** Bytes per year, after replication. */
+  storagePerYear: number;
+  /** Average egress in bytes per second. */
+  bandwidth: number;
+  peakBandwidth: number;
+  cacheSize: number;
+}
+
+export interface AssumptionField {
+  id: keyof CapacityAssumptions;
+  label: string;
+  kind: 'count' | 'bytes' | 'ratio' | 'factor';
+}
+
+export const SECONDS_PER_DAY = 86_400;
+
+/** Prompt heading for `estimateLines`; `CopyPromptButton` rewrites that block when the calculator changes. */
+export const WORKING_ESTIMATE_HEADING = 'Working Estimate';
+
+const secondsPer: Record<ScalePeriod, number> = {
+  second: 1,
+  day: SECONDS_PER_DAY,
+  month: SECONDS_PER_DAY * 30,
+  year: SECONDS_PER_DAY * 365,
+};
+
+export const defaultAssumptions: CapacityAssumptions = {
+  dailyActiveUsers: 10_000_000,
+  requestsPerUser: 20,
+  peakFactor: 3,
+  writeShare: 0.1,
+  bytesPerWrite: 1_000,
+  bytesPerResponse: 10_000,
+  replication: 3,
+  cacheShare: 0.2,
+};
+
+export const assumptionFields: AssumptionField[] = [
+  { id: 'dailyActiveUsers', label: 'Daily active users', kind: 'count' },
+  { id: 'requestsPerUser', label: 'Requests per user per day', kind: 'count' },
+  { id: 'peakFactor', label: 'Peak-to-average ratio', kind: 'factor' },
+  { id: 'writeShare', label: 'Share of requests that write', kind: 'ratio' },
+  { id: 'bytesPerWrite', label: 'Bytes stored per write', kind: 'bytes' },
+  { id: 'bytesPerResponse', label: 'Bytes per response', kind: 'bytes' },
+  { id: 'replication', label: 'Replication factor', kind: 'factor' },
+  { id: 'cacheShare', label: 'Share of daily reads cached', kind: 'ratio' },
+];
+
+// ── Formatting ──────────────────────────────────────────────────────────────
+
+const compactSteps: [number, string][] = [
+  [1e12, 'T'],
+  [1e9, 'B'],
+  [1e6, 'M'],
+  [1e3, 'K'],
+];
+
+/** 4200000000 → "4.2B"; small numbers keep their digits. */
+export function formatCount(value: number): string {
+  for (const [size, suffix] of compactSteps) {
+    if (Math.abs(value) >= size * 10 || (Math.abs(value) >= size && size >= 1e6)) {
+      return `${trim(value / size)}${suffix}`;
+    }
+  }
+  return Math.abs(value) >= 100 ? Math.round(value).toLocaleString('en-US') : trim(value);
+}
+
+const byteUnits = ['B', 'KB', 'MB', 'GB', 'TB', 'PB', 'EB'];
+
+/** Decimal units, as capacity planning usually rounds: 1500000 → "1.5 MB". */
+export function formatBytes(value: number): string {
+  let unit = 0;
+  while (Math.abs(value) >= 1000 && unit < byteUnits.length - 1) {
+    value /= 1000;
+    unit++;
+  }
+  return `${trim(value)} ${byteUnits[unit]}`;
+}
+
+function trim(value: number): string {
+  const digits = Math.abs(value) >= 100 ? 0 : Math.abs(value) >= 10 ? 1 : 2;
+  return String(Number(value.toFixed(digits)));
+}
+
+/** The headline figure for a Scale card, e.g. "4B+" or "15 GB". */
+export function formatFigure(metric: ScaleMetric): string {
+  const figure = metric.unit === 'bytes' ? formatBytes(metric.value) : formatCount(metric.value);
+  return metric.approx === 'at-least' ? `${figure}+` : metric.approx === 'about' ? `~${figure}` : figure;
+}
+
+/** Per-second average of a rate, or undefined for plain counts. */
+export function perSecond(metric: ScaleMetric): number | undefined {
+  return metric.per ? metric.value / secondsPer[metric.per] : undefined;
+}
+
+/** Full text for prompts: "4B+ messages/day (~46.3K/s on average)". */
+export function formatScaleValue(value: ScaleValue): string {
+  if (typeof value === 'string') return value;
+  const unit = value.unit && value.unit !== 'bytes' ? ` ${value.unit}` : '';
+  const text = `${formatFigure(value)}${unit}${value.per ? `/${value.per}` : ''}`;
+  const rate = perSecond(value);
+  return rate === undefined || value.per === 'second' ? text : `${text} (~${formatCount(rate)}/s on average)`;
+}
+
+export function isScaleMetric(value: unknown): value is ScaleMetric {
+  return typeof value === 'object' && value !== null && typeof (value as ScaleMetric).value === 'number';
+}
+
+// ── Estimate ────────────────────────────────────────────────────────────────
+
+export function estimateCapacity(a: CapacityAssumptions): CapacityEstimate {
+  const requestsPerDay = a.dailyActiveUsers * a.requestsPerUser;
+  const averageQps = requestsPerDay / SECONDS_PER_DAY;
+  const writesPerDay = requestsPerDay * a.writeShare;
+  const readsPerDay = requestsPerDay - writesPerDay;
+  const storagePerDay = writesPerDay * a.bytesPerWrite;
+  return {
+    averageQps,
+    peakQps: averageQps * a.peakFactor,
+    readQps: averageQps * (1 - a.writeShare),
+    writeQps: averageQps * a.writeShare,
+    storagePerDay,
+    storagePerYear: storagePerDay * 365 * a.replication,
+    bandwidth: averageQps * a.bytesPerResponse,
+    peakBandwidth: averageQps * a.peakFactor * a.bytesPerResponse,
+    cacheSize: readsPerDay * a.bytesPerResponse * a.cacheShare,
+  };
+}
+
+export function formatAssumption(field: AssumptionField, value: number): string {
+  switch (field.kind) {
+    case 'bytes':
+      return formatBytes(value);
+    case 'ratio':
+      return `${trim(value * 100)}%`;
+    case 'factor':
+      return `${trim(value)}×`;
+    case 'count':
+      return formatCount(value);
+  }
+}
+
+/** One line per assumption and derived figure, for prompts and summaries. */
+export function estimateLines(a: CapacityAssumptions, e = estimateCapacity(a)): string[] {
+  return [
+    ...assumptionFields.map((field) => `${field.label}: ${formatAssumption(field, a[field.id])} (assumed)`),
+    `Average load: ${formatCount(e.averageQps)} req/s (${formatCount(e.readQps)} reads, ${formatCount(e.writeQps)} writes)`,
+    `Peak load: ${formatCount(e.peakQps)} req/s`,
+    `New data: ${formatBytes(e.storagePerDay)}/day, ${formatBytes(e.storagePerYear)}/year with ${trim(a.replication)}× replication`,
+    `Egress: ${formatBytes(e.bandwidth)}/s average, ${formatBytes(e.peakBandwidth)}/s at peak`,
+    `Cache for the hot ${trim(a.cacheShare * 100)}% of daily reads: ${formatBytes(e.cacheSize)}`,
+  ];
+}
@@ -100,6 +100,19 @@ export const lessonCategoryColors: Record<LessonCategory, string> = {
   'architecture-techniques': 'bg-lcat-techniques',
 };
 
+export const lessonCategoryHexColors: Record<LessonCategory, string> = {
+  foundations: '#475569',
+  scalability: '#0f766e',
+  'data-storage': '#b45309',
+  'real-time': '#0369a1',
+  reliability: '#166534',
+  security: '#991b1b',
+  'cloud-infra': '#4338ca',
+  observability: '#7c2d12',
+  'ai-ml': '#6d28d9',
+  'architecture-techniques': '#be123c',
+};
+
 export type LessonLevel = 'foundational' | 'intermediate' | 'advanced';
 
 export const lessonLevelLabels: Record<LessonLevel, string> = {
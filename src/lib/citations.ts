@@ -0,0 +1,98 @@
+import { extractComponents } from '@/lib/mdx-components';
+import type { SystemEvidence } from '@/lib/lenses';
+
+/**
+ * Footnotes for case-study claims. Sources are declared once in frontmatter
+ * and cited from the body with `<Cite source="id">claim</Cite>`, a bare
+ * `<Source id="id" />` marker, or the `sources` prop of `<Scale>`. Numbers
+ * follow first citation in the body; sources nobody cites are listed last.
+ *
+ * The page builds the index and puts it on `Astro.locals.citations` before
+ * rendering the MDX, so the components can print the right number.
+ */
+
+export type EvidenceLevel = 'blog' | 'talk' | 'inference';
+
+export const evidenceLevelLabels: Record<EvidenceLevel, { label: string; one: string; many: string }> = {
+  blog: { label: 'Engineering blog', one: 'engineering post', many: 'engineering posts' },
+  talk: { label: 'Conference talk', one: 'talk', many: 'talks' },
+  inference: { label: 'Inference', one: 'inference', many: 'inferences' },
+};
+
+export interface SourceRef {
+  id: string;
+  title: string;
+  url?: string;
+  publisher?: string;
+  year?: number;
+  level: EvidenceLevel;
+}
+
+export interface Citation {
+  number: number;
+  source: SourceRef;
+  /** How many claims on the page cite this source. */
+  claims: number;
+}
+
+export interface CitationIndex {
+  /** Every declared source in footnote order. */
+  citations: Citation[];
+  byId: Map<string, Citation>;
+  /** Claims per evidence level; a `<Cite level>` counts at its own level, not the source's. */
+  levels: Record<EvidenceLevel, number>;
+}
+
+/** The source ids a body cites, in order, with the level each claim is made at. */
+export function citedClaims(body: string, sources: SourceRef[]): { id: string; level?: EvidenceLevel }[] {
+  const claims: { id: string; level?: EvidenceLevel }[] = [];
+  for (const { name, props } of extractComponents(body, ['Cite', 'Source', 'Scale'])) {
+    if (name === 'Scale') {
+      const bySource = props.sources && typeof props.sources === 'object' && !Array.isArray(props.sources) ? props.sources : {};
+      for (const id of Object.values(bySource)) if (typeof id === 'string') claims.push({ id });
+    } else {
+      const id = name === 'Cite' ? props.source : props.id;
+      const level = typeof props.level === 'string' && props.level in evidenceLevelLabels ? (props.level as EvidenceLevel) : undefined;
+      if (typeof id === 'string') claims.push({ id, level });
+    }
+  }
+  const known = new Set(sources.map((source) => source.id));
+  return claims.filter((claim) => known.has(claim.id));
+}
+
+export function buildCitations(sources: SourceRef[], body: string): CitationIndex {
+  const claims = citedClaims(body, sources);
+  const order = [...new Set([...claims.map((claim) => claim.id), ...sources.map((source) => source.id)])];
+  const byId = new Map<string, Citation>();
+  order.forEach((id, index) => {
+    const source = sources.find((candidate) => candidate.id === id)!;
+    byId.set(id, { number: index + 1, source, claims: 0 });
+  });
+
+  const levels: Record<EvidenceLevel, number> = { blog: 0, talk: 0, inference: 0 };
+  for (const claim of claims) {
+    const citation = byId.get(claim.id)!;
+    citation.claims++;
+    levels[claim.level ?? citation.source.level]++;
+  }
+  return { citations: [...byId.values()], byId, levels };
+}
+
+/** The lens evidence the cited claims add up to, or undefined when nothing is cited. */
+export function citedEvidence({ levels }: CitationIndex): SystemEvidence | undefined {
+  const published = levels.blog + levels.talk;
+  if (published + levels.inference === 0) return undefined;
+  if (levels.inference === 0) return 'published';
+  return published === 0 ? 'inferred' : 'mixed';
+}
+
+/** "3 engineering posts · 1 talk · 2 inferences", skipping levels nobody cited. */
+export function describeLevels({ levels }: CitationIndex): string {
+  return (Object.keys(levels) as EvidenceLevel[])
+    .filter((level) => levels[level] > 0)
+    .map((level) => {
+      const { one, many } = evidenceLevelLabels[level];
+      return `${levels[level]} ${levels[level] === 1 ? one : many}`;
+    })
+    .join(' · ');
+}
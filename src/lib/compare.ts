@@ -0,0 +1,48 @@
+import type { ComponentBlock, TradeoffBlock } from '@/lib/content-blocks';
+
+/**
+ * Data behind /compare. Each case study is flattened once at build time;
+ * the page picks columns from the `?systems=` query in the browser, so the
+ * "shared" highlights depend on which systems are selected together. Only
+ * type imports here: the page script bundles this module.
+ */
+
+export interface ComparedSystem {
+  id: string;
+  name: string;
+  tagline: string;
+  category: string;
+  tags: string[];
+  scale: Record<string, string>;
+  requirements: { functional: string[]; nonFunctional: string[] };
+  components: ComponentBlock[];
+  tradeoffs: TradeoffBlock[];
+  lessons: { id: string; title: string }[];
+}
+
+export const MAX_COMPARED = 4;
+
+/** Known ids from a `?systems=a,b,c` value, in the given order, without repeats. */
+export function parseSelection(param: string | null, known: string[], max = MAX_COMPARED): string[] {
+  const ids = (param ?? '')
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter((id) => known.includes(id));
+  return [...new Set(ids)].slice(0, max);
+}
+
+/** How many of the given lists mention each item, matched case-insensitively. */
+export function countShared(lists: string[][]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const list of lists) {
+    for (const item of new Set(list.map((value) => value.toLowerCase()))) {
+      counts.set(item, (counts.get(item) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/** Scale labels across every selected system, in first-seen order, so figures line up by row. */
+export function scaleRows(systems: ComparedSystem[]): string[] {
+  return [...new Set(systems.flatMap((system) => Object.keys(system.scale)))];
+}
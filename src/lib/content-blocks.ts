@@ -0,0 +1,134 @@
+import { extractComponents, extractSections, type MdxPropValue, type MdxSection } from '@/lib/mdx-components';
+import {
+  defaultAssumptions,
+  formatScaleValue,
+  isScaleMetric,
+  type CapacityAssumptions,
+  type ScaleMetric,
+} from '@/lib/capacity';
+
+export interface TradeoffBlock {
+  decision: string;
+  pros: string[];
+  cons: string[];
+}
+
+export interface ApproachBlock {
+  name: string;
+  description: string;
+  pros: string[];
+  cons: string[];
+}
+
+export interface ComponentBlock {
+  name: string;
+  description: string;
+}
+
+export interface ExampleBlock {
+  system: string;
+  approach: string;
+}
+
+export interface DiagramBlock {
+  chart: string;
+  caption?: string;
+}
+
+/** Structured data behind the MDX components on a page, in document order. */
+export interface ContentBlocks {
+  sections: MdxSection[];
+  /** Every Scale figure as display text, numeric ones formatted. */
+  scale: Record<string, string>;
+  /** The Scale figures written as numbers. */
+  metrics: Record<string, ScaleMetric>;
+  /** Assumptions of the first CapacityCalculator, filled out with defaults. */
+  capacity?: CapacityAssumptions;
+  requirements: { functional: string[]; nonFunctional: string[] };
+  components: ComponentBlock[];
+  approaches: ApproachBlock[];
+  tradeoffs: TradeoffBlock[];
+  examples: ExampleBlock[];
+  diagrams: DiagramBlock[];
+}
+
+function asString(value: MdxPropValue | undefined): string {
+  return typeof value === 'string' ? value : value === undefined || value === null ? '' : String(value);
+}
+
+function asStringArray(value: MdxPropValue | undefined): string[] {
+  return Array.isArray(value) ? value.map((item) => asString(item)) : [];
+}
+
+function asRecord(value: MdxPropValue | undefined): Record<string, MdxPropValue> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+}
+
+function asAssumptions(value: MdxPropValue | undefined): CapacityAssumptions {
+  const given = Object.entries(asRecord(value)).filter(
+    ([key, item]) => key in defaultAssumptions && typeof item === 'number',
+  );
+  return { ...defaultAssumptions, ...Object.fromEntries(given) };
+}
+
+export function extractBlocks(body: string): ContentBlocks {
+  const blocks: ContentBlocks = {
+    sections: extractSections(body),
+    scale: {},
+    metrics: {},
+    requirements: { functional: [], nonFunctional: [] },
+    components: [],
+    approaches: [],
+    tradeoffs: [],
+    examples: [],
+    diagrams: [],
+  };
+
+  for (const { name, props, children } of extractComponents(body)) {
+    switch (name) {
+      case 'Scale':
+        for (const [key, item] of Object.entries(asRecord(props.items))) {
+          if (isScaleMetric(item)) {
+            blocks.metrics[key] = item;
+            blocks.scale[key] = formatScaleValue(item);
+          } else {
+            blocks.scale[key] = asString(item);
+          }
+        }
+        break;
+      case 'CapacityCalculator':
+        blocks.capacity ??= asAssumptions(props.assumptions);
+        break;
+      case 'Requirements':
+        blocks.requirements.functional.push(...asStringArray(props.functional));
+        blocks.requirements.nonFunctional.push(...asStringArray(props.nonFunctional));
+        break;
+      case 'ComponentCard':
+        blocks.components.push({ name: asString(props.name), description: children });
+        break;
+      case 'Approach':
+        blocks.approaches.push({
+          name: asString(props.name),
+          description: children,
+          pros: asStringArray(props.pros),
+          cons: asStringArray(props.cons),
+        });
+        break;
+      case 'Tradeoff':
+        blocks.tradeoffs.push({
+          decision: asString(props.decision),
+          pros: asStringArray(props.pros),
+          cons: asStringArray(props.cons),
+        });
+        break;
+      case 'Example':
+        blocks.examples.push({ system: asString(props.system), approach: children });
+        break;
+      case 'Mermaid':
+        blocks.diagrams.push({ chart: asString(props.chart), caption: props.caption ? asString(props.caption) : undefined });
+        break;
+    }
+  }
+
+  return blocks;
+}
@@ -0,0 +1,43 @@
+import type { CollectionEntry } from 'astro:content';
+import { extractBlocks } from '@/lib/content-blocks';
+import { resolveGuideLens, resolveSystemLens } from '@/lib/lenses';
+import type { ContentCollection } from '@/lib/relationships';
+
+/**
+ * JSON shapes served from /api/*. Frontmatter is passed through as-is so
+ * new schema fields show up without touching this file; `blocks` holds the
+ * data parsed out of the MDX components. `lens` is replaced by the resolved
+ * lens, with the category fallback filled in.
+ */
+
+function urls(collection: ContentCollection, id: string, site: URL | undefined) {
+  const base = site ?? new URL('https://sysdesign.wiki');
+  return {
+    url: new URL(`/${collection}/${id}`, base).toString(),
+    api: new URL(`/api/${collection}/${id}.json`, base).toString(),
+  };
+}
+
+export function exportEntry(entry: CollectionEntry<ContentCollection>, site: URL | undefined) {
+  return {
+    id: entry.id,
+    collection: entry.collection,
+    ...urls(entry.collection, entry.id, site),
+    ...entry.data,
+    ...(entry.collection === 'guides' && { lens: resolveGuideLens(entry) }),
+    ...(entry.collection === 'systems' && { lens: resolveSystemLens(entry) }),
+    blocks: extractBlocks(entry.body ?? ''),
+  };
+}
+
+export function exportIndexItem(entry: CollectionEntry<ContentCollection>, site: URL | undefined) {
+  return {
+    id: entry.id,
+    collection: entry.collection,
+    title: entry.collection === 'systems' ? entry.data.name : entry.data.title,
+    tagline: entry.data.tagline,
+    category: entry.data.category,
+    tags: entry.data.tags,
+    ...urls(entry.collection, entry.id, site),
+  };
+}
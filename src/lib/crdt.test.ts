@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addToSet,
+  adjustPnCounter,
+  applyEdit,
+  converged,
+  counterValue,
+  createOrSet,
+  createPnCounter,
+  createRegister,
+  createReplica,
+  incrementCounter,
+  mergeCounters,
+  mergePnCounters,
+  mergeRegisters,
+  mergeReplica,
+  mergeSets,
+  pnCounterValue,
+  removeFromSet,
+  setRegister,
+  setValue,
+  type GCounter,
+  type LwwRegister,
+  type OrSet,
+  type PnCounter,
+  type Replica,
+  type ReplicaEdit,
+} from '@/lib/crdt';
+
+/** Seeded PRNG (mulberry32), so every run checks the same histories. */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const elements = ['milk', 'eggs', 'bread'];
+
+function randomEdit(next: () => number): ReplicaEdit {
+  const element = elements[Math.floor(next() * elements.length)];
+  const pick = Math.floor(next() * 5);
+  if (pick === 0) return { type: 'increment' };
+  if (pick === 1) return { type: 'adjust', by: next() < 0.5 ? 1 : -1 };
+  if (pick === 2) return { type: 'add', element };
+  if (pick === 3) return { type: 'remove', element };
+  return { type: 'write', value: `v${Math.floor(next() * 100)}` };
+}
+
+/**
+ * Three replicas that edit independently and sometimes sync, so their states
+ * overlap partially, the way real replicas' do.
+ */
+function histories(seed: number): [Replica, Replica, Replica] {
+  const next = random(seed);
+  const replicas: Replica[] = ['A', 'B', 'C'].map(createReplica);
+  for (let step = 0; step < 30; step++) {
+    const index = Math.floor(next() * 3);
+    replicas[index] = applyEdit(replicas[index], randomEdit(next));
+    if (next() < 0.2) {
+      const from = Math.floor(next() * 3);
+      replicas[index] = mergeReplica(replicas[index], replicas[from]);
+    }
+  }
+  return replicas as [Replica, Replica, Replica];
+}
+
+const seeds = Array.from({ length: 25 }, (_, i) => i + 1);
+
+/** Commutative, associative and idempotent: what lets replicas converge. */
+function expectSemilattice<T>(merge: (a: T, b: T) => T, pick: (replica: Replica) => T) {
+  for (const seed of seeds) {
+    const [a, b, c] = histories(seed).map(pick);
+    expect(merge(a, b)).toEqual(merge(b, a));
+    expect(merge(merge(a, b), c)).toEqual(merge(a, merge(b, c)));
+    expect(merge(a, a)).toEqual(a);
+  }
+}
+
+describe('G-Counter', () => {
+  const halves = (replica: Replica): GCounter => replica.counter;
+
+  it('merges commutatively, associatively and idempotently', () => {
+    expectSemilattice(mergeCounters, halves);
+  });
+
+  it('sums every replica and refuses to shrink', () => {
+    const counter = incrementCounter(incrementCounter({}, 'A', 2), 'B');
+    expect(counterValue(counter)).toBe(3);
+    expect(counterValue(mergeCounters(counter, { A: 1, B: 4 }))).toBe(6);
+    expect(() => incrementCounter(counter, 'A', -1)).toThrow(RangeError);
+  });
+});
+
+describe('PN-Counter', () => {
+  it('merges commutatively, associatively and idempotently', () => {
+    expectSemilattice<PnCounter>(mergePnCounters, (replica) => replica.pnCounter);
+  });
+
+  it('keeps concurrent increments and decrements from both sides', () => {
+    const a = adjustPnCounter(adjustPnCounter(createPnCounter(), 'A', 1), 'A', 1);
+    const b = adjustPnCounter(createPnCounter(), 'B', -3);
+    expect(pnCounterValue(mergePnCounters(a, b))).toBe(-1);
+  });
+});
+
+describe('LWW-Register', () => {
+  it('merges commutatively, associatively and idempotently', () => {
+    expectSemilattice<LwwRegister>(mergeRegisters, (replica) => replica.register);
+  });
+
+  it('keeps the later write and breaks ties by replica', () => {
+    const early = setRegister(createRegister(), 'early', 1, 'B');
+    const late = setRegister(createRegister(), 'late', 2, 'A');
+    expect(mergeRegisters(early, late).value).toBe('late');
+    const tieA = setRegister(createRegister(), 'from A', 3, 'A');
+    const tieB = setRegister(createRegister(), 'from B', 3, 'B');
+    expect(mergeRegisters(tieA, tieB).value).toBe('from B');
+    expect(mergeRegisters(tieB, tieA).value).toBe('from B');
+  });
+});
+
+describe('OR-Set', () => {
+  it('merges commutatively, associatively and idempotently', () => {
+    expectSemilattice<OrSet>(mergeSets, (replica) => replica.set);
+  });
+
+  it('lets a concurrent add win over a remove', () => {
+    const shared = addToSet(createOrSet(), 'milk', 'A:1');
+    // A removes the element it has seen while B, partitioned, adds it again.
+    const removed = removeFromSet(shared, 'milk');
+    const readded = addToSet(shared, 'milk', 'B:1');
+    expect(setValue(removed)).toEqual([]);
+    expect(setValue(mergeSets(removed, readded))).toEqual(['milk']);
+    expect(setValue(mergeSets(readded, removed))).toEqual(['milk']);
+  });
+
+  it('removes an element everywhere once the remove has seen every add', () => {
+    const both = mergeSets(addToSet(createOrSet(), 'eggs', 'A:1'), addToSet(createOrSet(), 'eggs', 'B:1'));
+    expect(setValue(mergeSets(removeFromSet(both, 'eggs'), both))).toEqual([]);
+  });
+});
+
+describe('replicas', () => {
+  it('converge after exchanging state in either order', () => {
+    for (const seed of seeds) {
+      const [a, b] = histories(seed);
+      expect(converged(mergeReplica(a, b), mergeReplica(b, a))).toBe(true);
+    }
+  });
+});
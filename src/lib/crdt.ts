@@ -0,0 +1,178 @@
+/**
+ * CRDT simulation behind `<CrdtPlayground>`. Pure and immutable. Every merge
+ * is commutative, associative and idempotent, which is what lets replicas
+ * exchange state in any order, any number of times, and still converge.
+ */
+
+// ── G-Counter ────────────────────────────────────────────────────────────────
+// One monotonic count per replica; the value is the sum, merge takes the max.
+
+export type GCounter = Record<string, number>;
+
+export function incrementCounter(counter: GCounter, replica: string, by = 1): GCounter {
+  if (by < 0) throw new RangeError('A G-Counter can only grow');
+  return { ...counter, [replica]: (counter[replica] ?? 0) + by };
+}
+
+export function counterValue(counter: GCounter): number {
+  return Object.values(counter).reduce((sum, count) => sum + count, 0);
+}
+
+export function mergeCounters(a: GCounter, b: GCounter): GCounter {
+  const merged = { ...a };
+  for (const [replica, count] of Object.entries(b)) merged[replica] = Math.max(merged[replica] ?? 0, count);
+  return merged;
+}
+
+// ── PN-Counter ───────────────────────────────────────────────────────────────
+// Two G-Counters, one for increments and one for decrements; the value is
+// their difference, so the count can go down while each half only grows.
+
+export interface PnCounter {
+  increments: GCounter;
+  decrements: GCounter;
+}
+
+export function createPnCounter(): PnCounter {
+  return { increments: {}, decrements: {} };
+}
+
+export function adjustPnCounter(counter: PnCounter, replica: string, by: number): PnCounter {
+  return by >= 0
+    ? { ...counter, increments: incrementCounter(counter.increments, replica, by) }
+    : { ...counter, decrements: incrementCounter(counter.decrements, replica, -by) };
+}
+
+export function pnCounterValue(counter: PnCounter): number {
+  return counterValue(counter.increments) - counterValue(counter.decrements);
+}
+
+export function mergePnCounters(a: PnCounter, b: PnCounter): PnCounter {
+  return {
+    increments: mergeCounters(a.increments, b.increments),
+    decrements: mergeCounters(a.decrements, b.decrements),
+  };
+}
+
+// ── OR-Set ───────────────────────────────────────────────────────────────────
+// Each add gets a unique tag; a remove tombstones only the tags it has seen,
+// so a concurrent add on another replica survives the merge (add wins).
+
+export interface OrSet {
+  /** Unique add tag → element. */
+  adds: Record<string, string>;
+  /** Tags removed so far, sorted so equal sets compare equal. */
+  removed: string[];
+}
+
+export function createOrSet(): OrSet {
+  return { adds: {}, removed: [] };
+}
+
+export function addToSet(set: OrSet, element: string, tag: string): OrSet {
+  return { ...set, adds: { ...set.adds, [tag]: element } };
+}
+
+export function removeFromSet(set: OrSet, element: string): OrSet {
+  const observed = Object.entries(set.adds)
+    .filter(([tag, value]) => value === element && !set.removed.includes(tag))
+    .map(([tag]) => tag);
+  return { ...set, removed: [...set.removed, ...observed].sort() };
+}
+
+export function setValue(set: OrSet): string[] {
+  const removed = new Set(set.removed);
+  const live = Object.entries(set.adds).filter(([tag]) => !removed.has(tag)).map(([, element]) => element);
+  return [...new Set(live)].sort();
+}
+
+export function mergeSets(a: OrSet, b: OrSet): OrSet {
+  return {
+    adds: { ...a.adds, ...b.adds },
+    removed: [...new Set([...a.removed, ...b.removed])].sort(),
+  };
+}
+
+// ── LWW-Register ─────────────────────────────────────────────────────────────
+// The write with the highest timestamp wins; the replica id breaks ties so
+// every replica picks the same winner.
+
+export interface LwwRegister {
+  value: string | null;
+  timestamp: number;
+  replica: string;
+}
+
+export function createRegister(): LwwRegister {
+  return { value: null, timestamp: 0, replica: '' };
+}
+
+export function setRegister(register: LwwRegister, value: string, timestamp: number, replica: string): LwwRegister {
+  return mergeRegisters(register, { value, timestamp, replica });
+}
+
+export function mergeRegisters(a: LwwRegister, b: LwwRegister): LwwRegister {
+  if (a.timestamp !== b.timestamp) return a.timestamp > b.timestamp ? a : b;
+  return a.replica >= b.replica ? a : b;
+}
+
+// ── Replicas ─────────────────────────────────────────────────────────────────
+
+export interface Replica {
+  id: string;
+  /** Lamport clock: stamps register writes and makes OR-Set tags unique. */
+  clock: number;
+  counter: GCounter;
+  pnCounter: PnCounter;
+  set: OrSet;
+  register: LwwRegister;
+}
+
+export type ReplicaEdit =
+  | { type: 'increment' }
+  | { type: 'adjust'; by: number }
+  | { type: 'add'; element: string }
+  | { type: 'remove'; element: string }
+  | { type: 'write'; value: string };
+
+export function createReplica(id: string): Replica {
+  return { id, clock: 0, counter: {}, pnCounter: createPnCounter(), set: createOrSet(), register: createRegister() };
+}
+
+export function applyEdit(replica: Replica, edit: ReplicaEdit): Replica {
+  const clock = replica.clock + 1;
+  switch (edit.type) {
+    case 'increment':
+      return { ...replica, clock, counter: incrementCounter(replica.counter, replica.id) };
+    case 'adjust':
+      return { ...replica, clock, pnCounter: adjustPnCounter(replica.pnCounter, replica.id, edit.by) };
+    case 'add':
+      return { ...replica, clock, set: addToSet(replica.set, edit.element, `${replica.id}:${clock}`) };
+    case 'remove':
+      return { ...replica, clock, set: removeFromSet(replica.set, edit.element) };
+    case 'write':
+      return { ...replica, clock, register: setRegister(replica.register, edit.value, clock, replica.id) };
+  }
+}
+
+/** `target` after receiving `source`'s full state. */
+export function mergeReplica(target: Replica, source: Replica): Replica {
+  return {
+    id: target.id,
+    clock: Math.max(target.clock, source.clock),
+    counter: mergeCounters(target.counter, source.counter),
+    pnCounter: mergePnCounters(target.pnCounter, source.pnCounter),
+    set: mergeSets(target.set, source.set),
+    register: mergeRegisters(target.register, source.register),
+  };
+}
+
+/** Whether two replicas expose the same observable values. */
+export function converged(a: Replica, b: Replica): boolean {
+  return (
+    counterValue(a.counter) === counterValue(b.counter) &&
+    pnCounterValue(a.pnCounter) === pnCounterValue(b.pnCounter) &&
+    setValue(a.set).join('\u0000') === setValue(b.set).join('\u0000') &&
+    a.register.value === b.register.value
+  );
+}
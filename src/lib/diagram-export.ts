@@ -0,0 +1,57 @@
+/**
+ * Client-side download of rendered diagrams. Mermaid's SVGs carry their own
+ * `<style>` block, so serialising the element is enough for a standalone file;
+ * PNGs are rasterised from that same file through a canvas.
+ */
+
+/** Paper background, so PNGs are not transparent in dark image viewers. */
+const PNG_BACKGROUND = '#fafafa';
+const PNG_SCALE = 2;
+
+/** Intrinsic size from the viewBox, falling back to the laid-out size. */
+export function svgSize(svg: SVGSVGElement): { width: number; height: number } {
+  const box = svg.viewBox.baseVal;
+  if (box && box.width > 0 && box.height > 0) return { width: box.width, height: box.height };
+  const rect = svg.getBoundingClientRect();
+  return { width: rect.width, height: rect.height };
+}
+
+/** Standalone SVG markup at its intrinsic size, without the page's responsive sizing. */
+export function serializeSvg(svg: SVGSVGElement): string {
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  const { width, height } = svgSize(svg);
+  copy.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  copy.setAttribute('width', String(width));
+  copy.setAttribute('height', String(height));
+  copy.style.removeProperty('max-width');
+  copy.style.removeProperty('height');
+  return new XMLSerializer().serializeToString(copy);
+}
+
+export async function svgToPng(svg: SVGSVGElement): Promise<Blob> {
+  const { width, height } = svgSize(svg);
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(serializeSvg(svg))}`;
+  await image.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(width * PNG_SCALE);
+  canvas.height = Math.ceil(height * PNG_SCALE);
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = PNG_BACKGROUND;
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Canvas export failed'))), 'image/png');
+  });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
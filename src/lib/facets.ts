@@ -0,0 +1,124 @@
+/**
+ * Filter state shared by the lessons, guides and systems index pages. The
+ * state round-trips through query params, so a filtered view is a link:
+ *
+ *   /lessons?category=data-storage&level=advanced&tags=caching,queues&time=5&status=unread&q=kafka
+ */
+
+export type ReadStatus = 'all' | 'unread' | 'read';
+
+export interface FacetState {
+  category: string;
+  level: string;
+  /** Tag slugs; items must carry every selected tag. */
+  tags: string[];
+  /** Upper bound in minutes, or '' for any length. */
+  time: string;
+  status: ReadStatus;
+  q: string;
+}
+
+/** What a filterable card exposes, read from its data attributes. */
+export interface FacetItem {
+  category: string;
+  level?: string;
+  tags: string[];
+  minutes: number;
+  read: boolean;
+  href: string;
+}
+
+export const timeBudgets = [
+  { value: '5', label: '5 min or less' },
+  { value: '10', label: '10 min or less' },
+  { value: '15', label: '15 min or less' },
+];
+
+export const statusLabels: Record<ReadStatus, string> = {
+  all: 'Everything',
+  unread: 'Unread',
+  read: 'Read',
+};
+
+export const emptyFacets: FacetState = { category: 'all', level: 'all', tags: [], time: '', status: 'all', q: '' };
+
+const WORDS_PER_MINUTE = 200;
+
+/** Reading time for pages without a `timeMinutes` field. */
+export function readingMinutes(body: string): number {
+  return Math.max(1, Math.round(body.split(/\s+/).filter(Boolean).length / WORDS_PER_MINUTE));
+}
+
+/** Most used tags first, ties alphabetical, for the tag chips. */
+export function topTags(items: { tags: string[] }[], limit = 16): string[] {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    for (const tag of item.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return [...counts]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([tag]) => tag);
+}
+
+export function parseFacets(params: URLSearchParams): FacetState {
+  const status = params.get('status');
+  return {
+    category: params.get('category') || 'all',
+    level: params.get('level') || 'all',
+    tags: (params.get('tags') ?? '').split(',').map((tag) => tag.trim()).filter(Boolean),
+    time: timeBudgets.some((budget) => budget.value === params.get('time')) ? params.get('time')! : '',
+    status: status === 'read' || status === 'unread' ? status : 'all',
+    q: params.get('q')?.trim() ?? '',
+  };
+}
+
+/** Writes `state` over `params`, dropping anything at its default so links stay short. */
+export function toParams(state: FacetState, params = new URLSearchParams()): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const values: Record<keyof FacetState, string> = {
+    category: state.category === 'all' ? '' : state.category,
+    level: state.level === 'all' ? '' : state.level,
+    tags: state.tags.join(','),
+    time: state.time,
+    status: state.status === 'all' ? '' : state.status,
+    q: state.q,
+  };
+  for (const [key, value] of Object.entries(values)) {
+    if (value) next.set(key, value);
+    else next.delete(key);
+  }
+  return next;
+}
+
+export function activeFacetCount(state: FacetState): number {
+  return (
+    (state.category !== 'all' ? 1 : 0) +
+    (state.level !== 'all' ? 1 : 0) +
+    state.tags.length +
+    (state.time ? 1 : 0) +
+    (state.status !== 'all' ? 1 : 0) +
+    (state.q ? 1 : 0)
+  );
+}
+
+/** Pagefind URLs and card hrefs differ only by a trailing slash. */
+export function normalizeHref(href: string): string {
+  return href.replace(/(\/index)?(\.html)?\/?$/, '') || '/';
+}
+
+/**
+ * Whether `item` passes every facet. `searchHits` holds the normalized
+ * hrefs matching `state.q`; leave it undefined when there is no query.
+ */
+export function matchesFacets(item: FacetItem, state: FacetState, searchHits?: Set<string>): boolean {
+  const itemTags = new Set(item.tags.map((tag) => tag.toLowerCase()));
+  return (
+    (state.category === 'all' || item.category === state.category) &&
+    (state.level === 'all' || item.level === state.level) &&
+    state.tags.every((tag) => itemTags.has(tag.toLowerCase())) &&
+    (!state.time || item.minutes <= Number(state.time)) &&
+    (state.status === 'all' || item.read === (state.status === 'read')) &&
+    (!searchHits || searchHits.has(normalizeHref(item.href)))
+  );
+}
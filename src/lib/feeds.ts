@@ -0,0 +1,245 @@
+import { getContainerRenderer } from '@astrojs/mdx/container-renderer';
+import { experimental_AstroContainer } from 'astro/container';
+import { loadRenderers } from 'astro:container';
+import { getCollection, render } from 'astro:content';
+import References from '@/components/References.astro';
+import { categoryLabels, guideCategoryLabels, lessonCategoryLabels } from '@/lib/categories';
+import { buildCitations } from '@/lib/citations';
+import { getFreshness } from '@/lib/freshness';
+import { ogImagePath } from '@/lib/og-images';
+import { contentKey, contentTitle, type ContentCollection, type ContentEntry } from '@/lib/relationships';
+
+/**
+ * Atom (/feed.xml) and JSON Feed 1.1 (/feed.json) of every reading page,
+ * newest change first, plus the same feeds narrowed to one collection
+ * (/feeds/systems.xml) or one category (/feeds/systems/messaging.xml).
+ *
+ * Entries carry the full page body. It is rendered once per entry through
+ * the container API and cleaned up for feed readers: scripts, styles and
+ * site classes go, diagrams become links to the page, and links become
+ * absolute so they still work outside the site.
+ *
+ * Pages with no date in frontmatter or git are left out: dating them at build
+ * time would make readers show them as new after every deploy.
+ */
+
+export type FeedFormat = 'xml' | 'json';
+
+export interface FeedScope {
+  collection?: ContentCollection;
+  category?: string;
+}
+
+export interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  tagline: string;
+  tags: string[];
+  image: string;
+  published: Date;
+  updated: Date;
+  contentHtml: string;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  /** The page the feed mirrors. */
+  homeUrl: string;
+  /** Where this feed lives, per format. */
+  feedUrls: Record<FeedFormat, string>;
+  updated: Date;
+  items: FeedItem[];
+}
+
+const siteName = 'SysDesignWiki';
+const defaultSite = new URL('https://sysdesign.wiki');
+
+const collectionFeedLabels: Record<ContentCollection, string> = {
+  systems: 'Case studies',
+  guides: 'Capability guides',
+  lessons: 'Concepts',
+};
+
+const categoryLabelsByCollection: Record<ContentCollection, Record<string, string>> = {
+  systems: categoryLabels,
+  guides: guideCategoryLabels,
+  lessons: lessonCategoryLabels,
+};
+
+const collections: ContentCollection[] = ['systems', 'guides', 'lessons'];
+
+export function feedPath({ collection, category }: FeedScope, format: FeedFormat): string {
+  if (!collection) return `/feed.${format}`;
+  return category ? `/feeds/${collection}/${category}.${format}` : `/feeds/${collection}.${format}`;
+}
+
+/** Every entry with a date to put on it. */
+async function getEntries(): Promise<ContentEntry[]> {
+  const [systems, guides, lessons] = await Promise.all([
+    getCollection('systems'),
+    getCollection('guides'),
+    getCollection('lessons'),
+  ]);
+  return [...systems, ...guides, ...lessons].filter((entry) => getFreshness(entry).updated);
+}
+
+/** Every collection, plus every category that has at least one dated entry. */
+export async function getFeedScopes(): Promise<FeedScope[]> {
+  const entries = await getEntries();
+  return collections.flatMap((collection) => {
+    const categories = new Set(entries.filter((entry) => entry.collection === collection).map((entry) => entry.data.category));
+    return [{ collection }, ...[...categories].sort().map((category) => ({ collection, category }))];
+  });
+}
+
+// ── Content ──────────────────────────────────────────────────────────────────
+
+let container: experimental_AstroContainer | undefined;
+const renderedContent = new Map<string, string>();
+
+function cleanContent(html: string, pageUrl: string): string {
+  return html
+    .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/g, '')
+    // Diagrams are large inline SVGs that most readers strip anyway; link to them on the page instead.
+    .replace(/<figure id="([^"]+)"[^>]*data-diagram-frame[^>]*>([\s\S]*?)<\/figure>/g, (_, id, inner) => {
+      const caption = inner.match(/<figcaption[^>]*>([\s\S]*?)<\/figcaption>/)?.[1].trim();
+      return `<p><a href="#${id}">${caption ? `Diagram: ${caption}` : 'View the diagram'}</a></p>`;
+    })
+    // Site classes and component attributes mean nothing without the site's CSS and scripts.
+    .replace(/<[a-z][^>]*>/g, (tag) => tag.replace(/\s(class|data-[\w-]+)(="[^"]*")?(?=[\s/>])/g, ''))
+    .replace(/\s(href|src)="([/#][^"]*)"/g, (_, attribute, path) => ` ${attribute}="${new URL(path, pageUrl)}"`);
+}
+
+async function renderContent(entry: ContentEntry, pageUrl: string): Promise<string> {
+  const key = contentKey(entry);
+  const cached = renderedContent.get(key);
+  if (cached !== undefined) return cached;
+
+  container ??= await experimental_AstroContainer.create({ renderers: await loadRenderers([getContainerRenderer()]) });
+  const { Content } = await render(entry);
+  let html: string;
+  if (entry.collection === 'systems') {
+    // Same footnote numbering as the page, with the reference list the footnotes point at.
+    const citations = buildCitations(entry.data.sources, entry.body ?? '');
+    html = await container.renderToString(Content, { locals: { citations } as App.Locals });
+    html += await container.renderToString(References, { props: { index: citations } });
+  } else {
+    html = await container.renderToString(Content);
+  }
+
+  const content = cleanContent(html, pageUrl);
+  renderedContent.set(key, content);
+  return content;
+}
+
+// ── Feeds ────────────────────────────────────────────────────────────────────
+
+async function feedItem(entry: ContentEntry, site: URL): Promise<FeedItem> {
+  const url = new URL(`/${entry.collection}/${entry.id}`, site).toString();
+  const freshness = getFreshness(entry);
+  // getEntries only returns dated entries.
+  const updated = freshness.updated!;
+  return {
+    id: url,
+    url,
+    title: contentTitle(entry),
+    tagline: entry.data.tagline,
+    tags: entry.data.tags,
+    image: new URL(ogImagePath(entry.collection, entry.id), site).toString(),
+    published: freshness.published ?? updated,
+    updated,
+    contentHtml: await renderContent(entry, url),
+  };
+}
+
+export async function getFeed(scope: FeedScope, site: URL = defaultSite): Promise<Feed> {
+  const { collection, category } = scope;
+  const entries = (await getEntries()).filter(
+    (entry) => (!collection || entry.collection === collection) && (!category || entry.data.category === category),
+  );
+  const items = (await Promise.all(entries.map((entry) => feedItem(entry, site)))).sort(
+    (a, b) => b.updated.getTime() - a.updated.getTime() || a.title.localeCompare(b.title),
+  );
+
+  const section = collection && collectionFeedLabels[collection];
+  const categoryLabel = collection && category && categoryLabelsByCollection[collection][category];
+  return {
+    title: [siteName, section, categoryLabel].filter(Boolean).join(' · '),
+    description: section
+      ? `New and updated ${section.toLowerCase()}${categoryLabel ? ` in ${categoryLabel}` : ''} on ${siteName}.`
+      : `New and updated concepts, capability guides and case studies on ${siteName}.`,
+    homeUrl: new URL(collection ? `/${collection}` : '/', site).toString(),
+    feedUrls: {
+      xml: new URL(feedPath(scope, 'xml'), site).toString(),
+      json: new URL(feedPath(scope, 'json'), site).toString(),
+    },
+    // Only an empty feed, with no entries to look new, falls back to the build time.
+    updated: items[0]?.updated ?? new Date(),
+    items,
+  };
+}
+
+// ── Serialization ────────────────────────────────────────────────────────────
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function atomFeed(feed: Feed): Response {
+  const entries = feed.items.map((item) => `  <entry>
+    <id>${escapeXml(item.id)}</id>
+    <title>${escapeXml(item.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>
+    <link rel="enclosure" type="image/png" href="${escapeXml(item.image)}"/>
+    <media:thumbnail url="${escapeXml(item.image)}" width="1200" height="630"/>
+    <published>${item.published.toISOString()}</published>
+    <updated>${item.updated.toISOString()}</updated>
+    <summary>${escapeXml(item.tagline)}</summary>
+${item.tags.map((tag) => `    <category term="${escapeXml(tag)}"/>`).join('\n')}
+    <content type="html" xml:base="${escapeXml(item.url)}">${escapeXml(item.contentHtml)}</content>
+  </entry>`);
+
+  const xml = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/">
+  <id>${escapeXml(feed.feedUrls.xml)}</id>
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrls.xml)}"/>
+  <link rel="alternate" type="text/html" href="${escapeXml(feed.homeUrl)}"/>
+  <updated>${feed.updated.toISOString()}</updated>
+  <author><name>${siteName}</name></author>
+  <icon>${escapeXml(new URL('/favicon.svg', feed.homeUrl).toString())}</icon>
+${entries.join('\n')}
+</feed>
+`;
+  return new Response(xml, { headers: { 'Content-Type': 'application/atom+xml; charset=utf-8' } });
+}
+
+export function jsonFeed(feed: Feed): Response {
+  return new Response(
+    JSON.stringify({
+      version: 'https://jsonfeed.org/version/1.1',
+      title: feed.title,
+      description: feed.description,
+      home_page_url: feed.homeUrl,
+      feed_url: feed.feedUrls.json,
+      favicon: new URL('/favicon.svg', feed.homeUrl).toString(),
+      language: 'en-US',
+      authors: [{ name: siteName }],
+      items: feed.items.map((item) => ({
+        id: item.id,
+        url: item.url,
+        title: item.title,
+        summary: item.tagline,
+        content_html: item.contentHtml,
+        image: item.image,
+        date_published: item.published.toISOString(),
+        date_modified: item.updated.toISOString(),
+        tags: item.tags,
+      })),
+    }),
+    { headers: { 'Content-Type': 'application/feed+json; charset=utf-8' } },
+  );
+}
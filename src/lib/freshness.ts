@@ -0,0 +1,78 @@
+import type { CollectionEntry } from 'astro:content';
+import { contentHistory } from '@/lib/content-history.generated';
+import type { ContentCollection } from '@/lib/relationships';
+
+/**
+ * How current a page is. Frontmatter `published` and `lastReviewed` win;
+ * otherwise the dates come from git via scripts/generate-content-history.mjs.
+ * A review without an edit still counts as an update, so `updated` is the
+ * later of the two.
+ *
+ * The changelog only lists notes written for readers: frontmatter
+ * `changelog` entries and `Changelog:` trailers on commits.
+ */
+
+/** Days after the last review before a page warns that it may be out of date. */
+export const staleAfterDays: Record<ContentCollection, number> = {
+  systems: 365,
+  guides: 540,
+  lessons: 730,
+};
+
+const DAY_MS = 86_400_000;
+const CHANGELOG_LIMIT = 8;
+
+export interface ChangelogEntry {
+  date: Date;
+  note: string;
+}
+
+export interface Freshness {
+  published?: Date;
+  /** Explicit review date, or the last commit when there is none. */
+  lastReviewed?: Date;
+  /** Whichever is later: the last review or the last commit. */
+  updated?: Date;
+  /** Whole days since the last review, at build time. */
+  ageDays?: number;
+  stale: boolean;
+  /** Newest first, at most CHANGELOG_LIMIT entries. */
+  changelog: ChangelogEntry[];
+}
+
+function latest(...dates: (Date | undefined)[]): Date | undefined {
+  return dates.filter((date): date is Date => date !== undefined).sort((a, b) => b.getTime() - a.getTime())[0];
+}
+
+export function getFreshness(entry: CollectionEntry<ContentCollection>, now = new Date()): Freshness {
+  const commits = contentHistory[`${entry.collection}/${entry.id}`]?.commits ?? [];
+  const lastCommit = commits[0] && new Date(commits[0].date);
+  const firstCommit = commits.length > 0 ? new Date(commits[commits.length - 1].date) : undefined;
+
+  const lastReviewed = entry.data.lastReviewed ?? lastCommit;
+  const ageDays = lastReviewed && Math.floor((now.getTime() - lastReviewed.getTime()) / DAY_MS);
+  return {
+    published: entry.data.published ?? firstCommit,
+    lastReviewed,
+    updated: latest(entry.data.lastReviewed, lastCommit),
+    ageDays,
+    stale: ageDays !== undefined && ageDays > staleAfterDays[entry.collection],
+    changelog: [
+      ...entry.data.changelog,
+      ...commits.flatMap((commit) => commit.changelog.map((note) => ({ date: new Date(commit.date), note }))),
+    ]
+      .sort((a, b) => b.date.getTime() - a.date.getTime())
+      .slice(0, CHANGELOG_LIMIT),
+  };
+}
+
+export function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+/** "3 months", "2 years": rough and rounded down, for the staleness notice. */
+export function formatAge(days: number): string {
+  if (days < 60) return `${days} days`;
+  if (days < 730) return `${Math.floor(days / 30)} months`;
+  return `${Math.floor(days / 365)} years`;
+}
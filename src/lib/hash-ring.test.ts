@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildRing,
+  keyPosition,
+  loadStats,
+  makeKeys,
+  nextNodeName,
+  place,
+  rebalance,
+  ringOwner,
+  type PlacementStrategy,
+} from '@/lib/hash-ring';
+
+const keys = makeKeys(10_000);
+const nodes = Array.from({ length: 8 }, (_, i) => `shard-${i}`);
+const stable: PlacementStrategy[] = ['ring', 'rendezvous'];
+
+describe('placement', () => {
+  it('gives every key the same owner for the same input', () => {
+    for (const strategy of [...stable, 'modulo'] as const) {
+      expect(place(keys, nodes, strategy, 50)).toEqual(place(keys, [...nodes], strategy, 50));
+    }
+  });
+
+  it('does not depend on the order nodes are listed in', () => {
+    const reversed = [...nodes].reverse();
+    for (const strategy of stable) {
+      expect(place(keys, reversed, strategy, 50).owners).toEqual(place(keys, nodes, strategy, 50).owners);
+    }
+  });
+
+  it('wraps keys past the last ring point to the first', () => {
+    const ring = buildRing(nodes, 4);
+    const key = keys.find((candidate) => keyPosition(candidate) > ring.at(-1)!.position);
+    expect(key).toBeDefined();
+    expect(ringOwner(ring, key!)).toBe(ring[0].node);
+  });
+
+  it('needs at least one node', () => {
+    expect(() => place(keys, [], 'ring')).toThrow(RangeError);
+  });
+});
+
+describe('rebalancing', () => {
+  it('moves about 1/N of the keys, all to the new node, when a node is added', () => {
+    const added = [...nodes, nextNodeName(nodes)];
+    for (const strategy of stable) {
+      const before = place(keys, nodes, strategy, 100);
+      const after = place(keys, added, strategy, 100);
+      const { moved } = rebalance(before, after);
+      expect(moved, strategy).toBeGreaterThan((keys.length / added.length) * 0.5);
+      expect(moved, strategy).toBeLessThan((keys.length / added.length) * 1.5);
+      after.owners.forEach((owner, i) => {
+        if (owner !== before.owners[i]) expect(owner).toBe('shard-8');
+      });
+    }
+  });
+
+  it('moves only the keys of a removed node', () => {
+    for (const strategy of stable) {
+      const before = place(keys, nodes, strategy, 100);
+      const after = place(keys, nodes.slice(1), strategy, 100);
+      const { moved, ideal } = rebalance(before, after);
+      expect(moved, strategy).toBe(ideal);
+      before.owners.forEach((owner, i) => {
+        if (owner !== 'shard-0') expect(after.owners[i]).toBe(owner);
+      });
+    }
+  });
+
+  it('moves most keys under modulo hashing', () => {
+    const { moved } = rebalance(place(keys, nodes, 'modulo'), place(keys, [...nodes, 'shard-8'], 'modulo'));
+    expect(moved).toBeGreaterThan(keys.length * 0.75);
+  });
+});
+
+describe('virtual nodes', () => {
+  it('spread keys more evenly as their number grows', () => {
+    const imbalance = (vnodes: number) => loadStats(place(keys, nodes, 'ring', vnodes)).imbalance;
+    expect(imbalance(10)).toBeLessThan(imbalance(1));
+    expect(imbalance(100)).toBeLessThan(imbalance(10));
+    expect(imbalance(200)).toBeLessThan(1.2);
+  });
+
+  it('place vnodes points per node on the ring', () => {
+    const ring = buildRing(nodes, 25);
+    expect(ring).toHaveLength(nodes.length * 25);
+    for (const node of nodes) expect(ring.filter((point) => point.node === node)).toHaveLength(25);
+  });
+});
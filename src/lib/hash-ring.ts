@@ -0,0 +1,140 @@
+/**
+ * Key placement strategies behind `<HashRing>`: modulo hashing, a
+ * consistent-hash ring with virtual nodes, and rendezvous (highest random
+ * weight) hashing. Pure functions over plain arrays so the component can
+ * recompute the whole assignment after every change.
+ */
+
+import { fnv1a } from '@/lib/hash';
+
+export type PlacementStrategy = 'modulo' | 'ring' | 'rendezvous';
+
+export const placementLabels: Record<PlacementStrategy, string> = {
+  modulo: 'Modulo',
+  ring: 'Consistent ring',
+  rendezvous: 'Rendezvous',
+};
+
+/** Positions live on a 32-bit circle. */
+export const RING_SIZE = 2 ** 32;
+
+export interface RingPoint {
+  position: number;
+  node: string;
+}
+
+export interface Placement {
+  strategy: PlacementStrategy;
+  nodes: string[];
+  /** Owner of each key, in key order. */
+  owners: string[];
+  ring: RingPoint[];
+}
+
+export interface LoadStats {
+  counts: Record<string, number>;
+  mean: number;
+  max: number;
+  /** Busiest node's load relative to a perfect split; 1 is perfectly even. */
+  imbalance: number;
+}
+
+export interface Rebalance {
+  moved: number;
+  /** Keys a scheme that stays perfectly balanced would move for this change. */
+  ideal: number;
+}
+
+export function keyPosition(key: string): number {
+  return fnv1a(key);
+}
+
+export function buildRing(nodes: string[], vnodes: number): RingPoint[] {
+  return nodes
+    .flatMap((node) => Array.from({ length: vnodes }, (_, i) => ({ position: fnv1a(`${node}#${i}`), node })))
+    .sort((a, b) => a.position - b.position);
+}
+
+/** The first ring point clockwise from the key, wrapping past the top. */
+export function ringOwner(ring: RingPoint[], key: string): string {
+  const position = keyPosition(key);
+  let low = 0;
+  let high = ring.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (ring[mid].position < position) low = mid + 1;
+    else high = mid;
+  }
+  return ring[low === ring.length ? 0 : low].node;
+}
+
+export function moduloOwner(nodes: string[], key: string): string {
+  return nodes[keyPosition(key) % nodes.length];
+}
+
+/** The node with the highest combined hash for this key. */
+export function rendezvousOwner(nodes: string[], key: string): string {
+  let best = nodes[0];
+  let bestWeight = -1;
+  for (const node of nodes) {
+    const weight = fnv1a(`${node}:${key}`);
+    if (weight > bestWeight || (weight === bestWeight && node < best)) {
+      best = node;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+/** A fresh node name in the same style as the existing ones: shard-3 after shard-2, node-d after node-c. */
+export function nextNodeName(nodes: string[]): string {
+  const numbered = nodes.map((node) => node.match(/^(.*?)(\d+)$/));
+  if (numbered.length > 0 && numbered.every(Boolean)) {
+    const prefix = numbered[0]![1];
+    return `${prefix}${Math.max(...numbered.map((match) => Number(match![2]))) + 1}`;
+  }
+  for (let i = 0; ; i++) {
+    const name = `node-${String.fromCharCode(97 + (i % 26))}${i >= 26 ? Math.floor(i / 26) : ''}`;
+    if (!nodes.includes(name)) return name;
+  }
+}
+
+export function makeKeys(count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `key-${i}`);
+}
+
+export function place(keys: string[], nodes: string[], strategy: PlacementStrategy, vnodes = 1): Placement {
+  if (nodes.length === 0) throw new RangeError('At least one node is required');
+  const ring = buildRing(nodes, strategy === 'ring' ? vnodes : 1);
+  const owner =
+    strategy === 'modulo'
+      ? (key: string) => moduloOwner(nodes, key)
+      : strategy === 'ring'
+        ? (key: string) => ringOwner(ring, key)
+        : (key: string) => rendezvousOwner(nodes, key);
+  return { strategy, nodes, owners: keys.map(owner), ring };
+}
+
+export function loadStats(placement: Placement): LoadStats {
+  const counts = Object.fromEntries(placement.nodes.map((node) => [node, 0]));
+  for (const owner of placement.owners) counts[owner]++;
+  const mean = placement.owners.length / placement.nodes.length;
+  const max = Math.max(...Object.values(counts));
+  return { counts, mean, max, imbalance: mean === 0 ? 1 : max / mean };
+}
+
+/**
+ * Keys whose owner changed between two placements of the same keys, next to
+ * the ideal: only the keys that must leave a removed node, or a fair share
+ * landing on an added one. A skewed ring can move fewer than the ideal when
+ * a new node picks up less than its share.
+ */
+export function rebalance(before: Placement, after: Placement): Rebalance {
+  const moved = before.owners.filter((owner, i) => owner !== after.owners[i]).length;
+  const added = after.nodes.filter((node) => !before.nodes.includes(node));
+  const removed = before.nodes.filter((node) => !after.nodes.includes(node));
+  const keys = before.owners.length;
+  const leaving = before.owners.filter((owner) => removed.includes(owner)).length;
+  const arriving = Math.round((keys * added.length) / after.nodes.length);
+  return { moved, ideal: Math.max(leaving, arriving) };
+}
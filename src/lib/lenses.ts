@@ -0,0 +1,169 @@
+import type { CollectionEntry } from 'astro:content';
+import type { Category, GuideCategory } from '@/lib/categories';
+import { buildCitations, citedEvidence } from '@/lib/citations';
+
+/**
+ * The "lens" box at the top of guides and case studies: how to read the page
+ * before the details. Entries set it in frontmatter under `lens`; any field
+ * they leave out falls back to their category's lens below. Pages, prompts
+ * and the JSON export all read the resolved lens from here.
+ *
+ * A case study's evidence comes from the claims it actually cites when it
+ * cites any; `lens.evidence` only covers pages without sources.
+ */
+
+export interface GuideLens {
+  /** The 0->1 design a small team should start from. */
+  defaultModel: string;
+  costDrivers: string[];
+  /** Signals that the default has stopped being enough. */
+  breakpoints: string[];
+}
+
+export type SystemEvidence = 'published' | 'mixed' | 'inferred';
+
+export interface SystemLens {
+  /** How much of the page rests on what the company has published. */
+  evidence: SystemEvidence;
+  /** What the case study is best at teaching. */
+  focus: string;
+  /** The constraints that shape the design more than anything else. */
+  constraints: string[];
+  costDrivers: string[];
+}
+
+export const systemEvidenceLabels: Record<SystemEvidence, { label: string; description: string }> = {
+  published: {
+    label: 'Published engineering',
+    description: 'The company has written about much of this architecture. Details may have moved on since.',
+  },
+  mixed: {
+    label: 'Public info + inference',
+    description: 'Public talks and posts cover parts of the design; the rest is inferred from how the product behaves.',
+  },
+  inferred: {
+    label: 'Mostly inference',
+    description: 'Little is published, so this is a plausible design reasoned from the product, not a description of it.',
+  },
+};
+
+// ── Category fallbacks ───────────────────────────────────────────────────────
+
+export const guideLensByCategory: Record<GuideCategory, GuideLens> = {
+  'real-time': {
+    defaultModel: 'Start with the simplest delivery path that meets latency needs before introducing durable fanout or global state.',
+    costDrivers: ['open connections', 'fanout work', 'presence updates', 'cross-region traffic'],
+    breakpoints: ['connection count grows faster than app servers', 'message fanout dominates request work', 'presence state becomes stale or expensive'],
+  },
+  platform: {
+    defaultModel: 'Start with clear tenant boundaries, boring data ownership, and reversible choices before optimizing for platform scale.',
+    costDrivers: ['tenant isolation', 'custom configuration', 'background jobs', 'support tooling'],
+    breakpoints: ['large tenants affect small tenants', 'support teams need self-serve controls', 'migration work becomes tenant-specific'],
+  },
+  data: {
+    defaultModel: 'Start with the primary database when quality and volume allow it; add dedicated data infrastructure when query shape demands it.',
+    costDrivers: ['index size', 'write amplification', 'storage growth', 'reindexing and backfills'],
+    breakpoints: ['queries harm transactional workloads', 'freshness targets conflict with indexing cost', 'ranking quality needs a dedicated pipeline'],
+  },
+  reliability: {
+    defaultModel: 'Start with a durable queue, clear ownership, retries, and idempotency before building a larger event platform.',
+    costDrivers: ['retry amplification', 'queue requests', 'worker runtime', 'delivery history and logs'],
+    breakpoints: ['backlog grows during normal traffic', 'manual recovery becomes frequent', 'independent consumers need replay'],
+  },
+  security: {
+    defaultModel: 'Start with explicit trust boundaries, auditable decisions, and managed primitives where correctness matters more than novelty.',
+    costDrivers: ['audit retention', 'encryption and key management', 'policy checks', 'compliance evidence'],
+    breakpoints: ['authorization logic spreads across services', 'audit queries become operationally important', 'customers require stronger controls'],
+  },
+  media: {
+    defaultModel: 'Start with object storage, signed access, lifecycle rules, and async processing before optimizing the media pipeline.',
+    costDrivers: ['storage volume', 'egress', 'transcoding minutes', 'duplicate derivatives'],
+    breakpoints: ['egress dominates the bill', 'processing queues delay user workflows', 'asset variants become hard to manage'],
+  },
+  collaboration: {
+    defaultModel: 'Start with a collaboration model that matches the product promise; do not choose CRDTs or OT before conflict behavior is clear.',
+    costDrivers: ['sync traffic', 'document history', 'presence updates', 'conflict resolution complexity'],
+    breakpoints: ['offline edits become common', 'conflicts create support load', 'large documents slow sync or replay'],
+  },
+};
+
+export const systemLensByCategory: Record<Category, SystemLens> = {
+  messaging: {
+    evidence: 'mixed',
+    focus: 'How to deliver messages in order, exactly once as far as users can tell, to people who are often offline.',
+    constraints: ['per-conversation ordering', 'offline delivery and sync', 'fanout to group members'],
+    costDrivers: ['persistent connections', 'message storage and history', 'push notifications'],
+  },
+  social: {
+    evidence: 'mixed',
+    focus: 'How to build feeds and graphs where a few accounts have millions of followers and most have a handful.',
+    constraints: ['skewed follower graphs', 'feed freshness', 'read-heavy traffic'],
+    costDrivers: ['feed fanout', 'media storage and delivery', 'ranking compute'],
+  },
+  streaming: {
+    evidence: 'mixed',
+    focus: 'How to deliver large media files to many devices with quick starts and few rebuffers.',
+    constraints: ['startup latency', 'device and bandwidth variety', 'licensing and regions'],
+    costDrivers: ['egress and CDN capacity', 'encoding ladders', 'catalog storage'],
+  },
+  transport: {
+    evidence: 'mixed',
+    focus: 'How to match moving supply with demand in real time over a map.',
+    constraints: ['location update volume', 'matching latency', 'regional marketplaces'],
+    costDrivers: ['location ingestion', 'geospatial indexing', 'routing and ETA compute'],
+  },
+  search: {
+    evidence: 'mixed',
+    focus: 'How to answer queries quickly over data too large to scan, with results that feel relevant.',
+    constraints: ['query latency', 'index freshness', 'relevance quality'],
+    costDrivers: ['index build and storage', 'query fanout', 'data collection'],
+  },
+  commerce: {
+    evidence: 'mixed',
+    focus: 'How to keep bookings and payments correct while search and browsing scale independently.',
+    constraints: ['no double booking', 'payment correctness', 'search over changing availability'],
+    costDrivers: ['search infrastructure', 'payment and fraud checks', 'listing media'],
+  },
+  infra: {
+    evidence: 'mixed',
+    focus: 'How to build a shared platform other teams rely on without it becoming the bottleneck.',
+    constraints: ['multi-tenant isolation', 'availability targets', 'operational tooling'],
+    costDrivers: ['over-provisioned capacity', 'replication', 'observability'],
+  },
+  video: {
+    evidence: 'mixed',
+    focus: 'How to keep live audio and video usable over networks you do not control.',
+    constraints: ['sub-second latency', 'packet loss and jitter', 'call size'],
+    costDrivers: ['media server capacity', 'TURN relay bandwidth', 'recording storage'],
+  },
+  devtools: {
+    evidence: 'mixed',
+    focus: 'How to store and serve large, fast-changing developer data where correctness is non-negotiable.',
+    constraints: ['data integrity', 'large repositories', 'bursty automation traffic'],
+    costDrivers: ['storage and replication', 'CI and background compute', 'search indexing'],
+  },
+  ai: {
+    evidence: 'inferred',
+    focus: 'How to serve expensive model inference interactively while keeping GPU fleets busy.',
+    constraints: ['GPU capacity', 'token streaming latency', 'safety checks in the request path'],
+    costDrivers: ['GPU hours', 'context length', 'conversation storage'],
+  },
+  productivity: {
+    evidence: 'inferred',
+    focus: 'How to sync user files and documents across devices without losing edits.',
+    constraints: ['sync correctness', 'sharing and permissions', 'large files'],
+    costDrivers: ['storage growth', 'sync traffic', 'indexing and previews'],
+  },
+};
+
+// ── Resolution ───────────────────────────────────────────────────────────────
+
+export function resolveGuideLens(entry: CollectionEntry<'guides'>): GuideLens {
+  return { ...guideLensByCategory[entry.data.category], ...entry.data.lens };
+}
+
+export function resolveSystemLens(entry: CollectionEntry<'systems'>): SystemLens {
+  const lens = { ...systemLensByCategory[entry.data.category], ...entry.data.lens };
+  const cited = citedEvidence(buildCitations(entry.data.sources, entry.body ?? ''));
+  return { ...lens, evidence: cited ?? lens.evidence };
+}
@@ -0,0 +1,157 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkMdx from 'remark-mdx';
+import type { Root, RootContent } from 'mdast';
+import type { Expression } from 'estree';
+
+// Keep this module free of `@/` imports: scripts/check-content.mjs loads it
+// directly with Node, outside of Vite's alias resolution.
+
+export type MdxPropValue =
+  | string
+  | number
+  | boolean
+  | null
+  | MdxPropValue[]
+  | { [key: string]: MdxPropValue };
+
+export interface MdxComponent {
+  name: string;
+  /** Literal props only; props bound to identifiers or expressions are omitted. */
+  props: Record<string, MdxPropValue>;
+  /** Raw MDX source between the opening and closing tags. */
+  children: string;
+  /** 1-based line of the opening tag, relative to the body. */
+  line: number;
+}
+
+const processor = unified().use(remarkParse).use(remarkMdx);
+
+function evaluate(node: Expression): MdxPropValue {
+  switch (node.type) {
+    case 'Literal':
+      if (node.value instanceof RegExp || typeof node.value === 'bigint' || node.value === undefined) break;
+      return node.value;
+    case 'TemplateLiteral':
+      if (node.expressions.length > 0) break;
+      return node.quasis.map((quasi) => quasi.value.cooked ?? quasi.value.raw).join('');
+    case 'ArrayExpression':
+      return node.elements.map((element) => {
+        if (!element || element.type === 'SpreadElement') throw new Error('Unsupported array element in MDX prop');
+        return evaluate(element);
+      });
+    case 'ObjectExpression': {
+      const result: Record<string, MdxPropValue> = {};
+      for (const property of node.properties) {
+        if (property.type !== 'Property' || property.computed) throw new Error('Unsupported object property in MDX prop');
+        const key =
+          property.key.type === 'Identifier' ? property.key.name :
+          property.key.type === 'Literal' ? String(property.key.value) :
+          undefined;
+        if (key === undefined) throw new Error('Unsupported object key in MDX prop');
+        result[key] = evaluate(property.value as Expression);
+      }
+      return result;
+    }
+    case 'UnaryExpression':
+      if (node.operator === '-' && node.argument.type === 'Literal' && typeof node.argument.value === 'number') {
+        return -node.argument.value;
+      }
+      break;
+  }
+  throw new Error(`Unsupported ${node.type} in MDX prop`);
+}
+
+function readProps(node: Extract<RootContent, { type: 'mdxJsxFlowElement' | 'mdxJsxTextElement' }>) {
+  const props: Record<string, MdxPropValue> = {};
+  for (const attribute of node.attributes) {
+    if (attribute.type !== 'mdxJsxAttribute') continue;
+    const { value } = attribute;
+    if (value === null || value === undefined) {
+      props[attribute.name] = true;
+    } else if (typeof value === 'string') {
+      props[attribute.name] = value;
+    } else {
+      const statement = value.data?.estree?.body[0];
+      if (statement?.type !== 'ExpressionStatement') continue;
+      try {
+        props[attribute.name] = evaluate(statement.expression);
+      } catch {
+        // Not a literal (e.g. an imported SVG); leave it out.
+      }
+    }
+  }
+  return props;
+}
+
+function childrenSource(node: { children: RootContent[] }, body: string): string {
+  const first = node.children[0]?.position?.start.offset;
+  const last = node.children[node.children.length - 1]?.position?.end.offset;
+  if (first === undefined || last === undefined) return '';
+  return body.slice(first, last).trim();
+}
+
+/**
+ * Lists every JSX component used in an MDX body, in document order, with
+ * its props evaluated from their literal expressions. Nested components
+ * (e.g. ComponentCard inside ComponentList) are included after their parent.
+ */
+export function extractComponents(body: string, names?: string[]): MdxComponent[] {
+  const tree = processor.parse(body) as Root;
+  const components: MdxComponent[] = [];
+
+  function walk(nodes: RootContent[]) {
+    for (const node of nodes) {
+      if ((node.type === 'mdxJsxFlowElement' || node.type === 'mdxJsxTextElement') && node.name) {
+        if (!names || names.includes(node.name)) {
+          components.push({
+            name: node.name,
+            props: readProps(node),
+            children: childrenSource(node, body),
+            line: node.position?.start.line ?? 0,
+          });
+        }
+      }
+      if ('children' in node) walk(node.children as RootContent[]);
+    }
+  }
+
+  walk(tree.children);
+  return components;
+}
+
+export interface MdxSection {
+  heading: string;
+  /** Markdown prose under the heading, with imports and JSX components removed. */
+  content: string;
+}
+
+// Citations sit inside prose; their claims stay in the text, the markers go.
+const citationTags = /<\/?(Cite|Source)\b[^>]*>/g;
+
+/**
+ * Splits an MDX body into its `##` sections. Text before the first heading
+ * is returned under an empty heading when present.
+ */
+export function extractSections(body: string): MdxSection[] {
+  const tree = processor.parse(body) as Root;
+  const sections: MdxSection[] = [];
+  let current: { heading: string; parts: string[] } | undefined;
+
+  for (const node of tree.children) {
+    if (node.type === 'heading' && node.depth === 2) {
+      if (current) sections.push({ heading: current.heading, content: current.parts.join('\n\n') });
+      current = { heading: childrenSource(node, body), parts: [] };
+      continue;
+    }
+    if (node.type === 'mdxjsEsm' || node.type === 'mdxJsxFlowElement' || node.type === 'mdxFlowExpression') continue;
+    const start = node.position?.start.offset;
+    const end = node.position?.end.offset;
+    if (start === undefined || end === undefined) continue;
+    current ??= { heading: '', parts: [] };
+    current.parts.push(body.slice(start, end).replace(citationTags, '').trim());
+  }
+
+  if (current) sections.push({ heading: current.heading, content: current.parts.join('\n\n') });
+  return sections.filter((section) => section.heading || section.content);
+}
@@ -0,0 +1,46 @@
+import type { MermaidConfig } from 'mermaid';
+
+// Keep this module free of `@/` imports: scripts/render-mermaid.mjs loads it
+// directly with Node, outside of Vite's alias resolution.
+
+/** Theme shared by the build-time renderer and opt-in client rendering. */
+export const mermaidConfig: MermaidConfig = {
+  startOnLoad: false,
+  theme: 'base',
+  themeVariables: {
+    primaryColor: '#f4f4f5',
+    primaryTextColor: '#18181b',
+    primaryBorderColor: '#d4d4d8',
+    lineColor: '#2563eb',
+    secondaryColor: '#e4e4e7',
+    tertiaryColor: '#dbeafe',
+    fontFamily: '"IBM Plex Sans", system-ui, sans-serif',
+    fontSize: '13px',
+    nodeBorder: '#2563eb',
+    mainBkg: '#f4f4f5',
+    clusterBkg: '#fafafa',
+    clusterBorder: '#e4e4e7',
+    titleColor: '#18181b',
+    edgeLabelBackground: '#fafafa',
+    nodeTextColor: '#18181b',
+  },
+  flowchart: {
+    htmlLabels: true,
+    curve: 'basis',
+    padding: 15,
+    nodeSpacing: 50,
+    rankSpacing: 60,
+  },
+  sequence: {
+    actorMargin: 50,
+    boxMargin: 10,
+    mirrorActors: false,
+    messageMargin: 40,
+  },
+};
+
+/**
+ * Id the build renders every chart with. `<Mermaid>` swaps it for a stable
+ * per-chart id, which also renames the SVG's scoped styles and markers.
+ */
+export const MERMAID_ID_PLACEHOLDER = 'mermaid-svg-placeholder';
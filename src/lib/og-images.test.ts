@@ -0,0 +1,97 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { CollectionEntry, CollectionKey } from 'astro:content';
+import type { z } from 'astro/zod';
+import { describe, expect, it, vi } from 'vitest';
+import { parse as parseYaml } from 'yaml';
+import { collections } from '@/content.config';
+import { DEFAULT_OG_IMAGE, getOgImages, ogImagePath, ogSections } from '@/lib/og-images';
+import { tagSlug } from '@/lib/tags';
+
+const pagesDir = join(process.cwd(), 'src/pages');
+
+/** Every entry as getCollection would return it, frontmatter validated by the collection's schema. */
+function loadEntries(collection: CollectionKey): CollectionEntry<CollectionKey>[] {
+  const dir = join(process.cwd(), 'src/content', collection);
+  const schema = collections[collection].schema as z.ZodType;
+  return readdirSync(dir)
+    .filter((file) => /\.(mdx|yaml)$/.test(file))
+    .sort()
+    .map((file) => {
+      const source = readFileSync(join(dir, file), 'utf8');
+      const frontmatter = file.endsWith('.yaml') ? source : (source.match(/^---\r?\n([\s\S]*?)\r?\n---/)?.[1] ?? '');
+      return {
+        id: file.replace(/\.(mdx|yaml)$/, ''),
+        collection,
+        data: schema.parse(parseYaml(frontmatter) ?? {}),
+      } as CollectionEntry<CollectionKey>;
+    });
+}
+
+vi.mock('astro:content', () => ({
+  defineCollection: (config: unknown) => config,
+  getCollection: async (collection: CollectionKey) => loadEntries(collection),
+}));
+
+/** The route file under src/pages/og that renders an image path, if any. */
+function ogRoute(image: string): string | undefined {
+  const [, section, id] = image.match(/^\/og\/([\w-]+)(?:\/([\w-]+))?\.png$/) ?? [];
+  if (!section) return undefined;
+  if (!id) return existsSync(join(pagesDir, 'og', `${section}.png.ts`)) ? `${section}.png.ts` : '[section].png.ts';
+  const dir = join(pagesDir, 'og', section);
+  return existsSync(dir) ? readdirSync(dir).find((file) => /^\[\w+\]\.png\.ts$/.test(file)) : undefined;
+}
+
+describe('ogImagePath', () => {
+  it('points section cards and page cards at their routes', () => {
+    expect(ogImagePath('lessons')).toBe('/og/lessons.png');
+    expect(ogImagePath('systems', 'discord')).toBe('/og/systems/discord.png');
+    expect(ogRoute(ogImagePath('lessons'))).toBe('[section].png.ts');
+    expect(ogRoute(ogImagePath('systems', 'discord'))).toBe('[slug].png.ts');
+    expect(ogRoute(DEFAULT_OG_IMAGE)).toBe('default.png.ts');
+  });
+});
+
+describe('getOgImages', () => {
+  it('gives every lesson, guide and system its own card', async () => {
+    const images = await getOgImages();
+    for (const collection of ['lessons', 'guides', 'systems'] as const) {
+      const entries = loadEntries(collection);
+      expect(entries.length, collection).toBeGreaterThan(0);
+      for (const { id } of entries) {
+        expect(images.get(`/${collection}/${id}`)).toBe(`/og/${collection}/${id}.png`);
+      }
+      expect(existsSync(join(pagesDir, collection, '[slug].astro')), collection).toBe(true);
+    }
+  });
+
+  it('gives every learning path and used tag its own card', async () => {
+    const images = await getOgImages();
+    for (const { id } of loadEntries('paths')) expect(images.get(`/paths/${id}`)).toBe(`/og/paths/${id}.png`);
+    const tags = ['lessons', 'guides', 'systems'].flatMap((collection) =>
+      loadEntries(collection as CollectionKey).flatMap((entry) => (entry.data as { tags: string[] }).tags),
+    );
+    for (const tag of tags) expect(images.get(`/tags/${tagSlug(tag)}`)).toBe(`/og/tags/${tagSlug(tag)}.png`);
+  });
+
+  it('gives each section index a section card', async () => {
+    const images = await getOgImages();
+    for (const section of ogSections) {
+      expect(images.get(`/${section}`)).toBe(`/og/${section}.png`);
+      expect(existsSync(join(pagesDir, section, 'index.astro')), section).toBe(true);
+    }
+  });
+
+  it('leaves the other static pages on the default card', async () => {
+    const images = await getOgImages();
+    const staticPages = ['/', '/about', '/compare', '/lessons/graph', '/offline', '/reading-list', '/review', '/tools/estimate'];
+    for (const page of staticPages) {
+      expect(existsSync(join(pagesDir, page === '/' ? 'index.astro' : `${page}.astro`)), page).toBe(true);
+      expect(images.has(page), page).toBe(false);
+    }
+  });
+
+  it('only lists images that a route under src/pages/og renders', async () => {
+    for (const [page, image] of await getOgImages()) expect(ogRoute(image), page).toBeDefined();
+  });
+});
@@ -0,0 +1,43 @@
+import { getCollection } from 'astro:content';
+import { usedTagSlugs } from '@/lib/tags';
+
+/**
+ * Which page gets which Open Graph image. Each route under src/pages/og
+ * renders the images listed here, and BaseLayout looks the current page up
+ * so pages never pass `ogImage` by hand. Anything not listed shares the
+ * default card. scripts/check-og.mjs verifies the built site against it.
+ */
+
+export const DEFAULT_OG_IMAGE = '/og/default.png';
+
+/** Sections with both an index card (/og/lessons.png) and one card per page (/og/lessons/<id>.png). */
+export const ogSections = ['lessons', 'guides', 'systems', 'paths', 'tags'] as const;
+export type OgSection = (typeof ogSections)[number];
+
+export function ogImagePath(section: OgSection, id?: string): string {
+  return id ? `/og/${section}/${id}.png` : `/og/${section}.png`;
+}
+
+/** Page pathname (no trailing slash) → image path, for every page with its own card. */
+export async function getOgImages(): Promise<Map<string, string>> {
+  const [lessons, guides, systems, paths] = await Promise.all([
+    getCollection('lessons'),
+    getCollection('guides'),
+    getCollection('systems'),
+    getCollection('paths'),
+  ]);
+  const ids: Record<OgSection, string[]> = {
+    lessons: lessons.map((entry) => entry.id),
+    guides: guides.map((entry) => entry.id),
+    systems: systems.map((entry) => entry.id),
+    paths: paths.map((entry) => entry.id),
+    tags: usedTagSlugs([...lessons, ...guides, ...systems]),
+  };
+
+  const images = new Map<string, string>();
+  for (const section of ogSections) {
+    images.set(`/${section}`, ogImagePath(section));
+    for (const id of ids[section]) images.set(`/${section}/${id}`, ogImagePath(section, id));
+  }
+  return images;
+}
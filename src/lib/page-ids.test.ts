@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { uniqueId } from '@/lib/page-ids';
+
+describe('uniqueId', () => {
+  it('numbers repeats of an id within one page', () => {
+    const locals = {};
+    expect(['diagram-a', 'diagram-b', 'diagram-a', 'diagram-a'].map((id) => uniqueId(locals, id))).toEqual([
+      'diagram-a',
+      'diagram-b',
+      'diagram-a-2',
+      'diagram-a-3',
+    ]);
+  });
+
+  it('starts over on the next page', () => {
+    uniqueId({}, 'diagram-a');
+    expect(uniqueId({}, 'diagram-a')).toBe('diagram-a');
+  });
+});
@@ -0,0 +1,14 @@
+/**
+ * Element ids that stay unique within one rendered page. Components that
+ * derive their id from their content, like diagrams hashed from their chart,
+ * would otherwise repeat it when a page shows the same content twice.
+ *
+ * The counts live on `Astro.locals`, which Astro creates afresh for every
+ * page it renders.
+ */
+export function uniqueId(locals: Pick<App.Locals, 'pageIds'>, base: string): string {
+  locals.pageIds ??= new Map();
+  const seen = (locals.pageIds.get(base) ?? 0) + 1;
+  locals.pageIds.set(base, seen);
+  return seen === 1 ? base : `${base}-${seen}`;
+}
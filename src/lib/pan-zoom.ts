@@ -0,0 +1,56 @@
+/**
+ * View transform for the diagram lightbox: a translation and a uniform scale
+ * applied to the diagram, kept as plain numbers so pointer, wheel and
+ * keyboard input all go through the same few functions.
+ */
+
+export interface View {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export const MIN_SCALE = 0.25;
+export const MAX_SCALE = 8;
+/** Factor applied per zoom key press or button click. */
+export const ZOOM_STEP = 1.25;
+/** Pixels moved per arrow key press. */
+export const PAN_STEP = 60;
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+/** Scale `content` to fit inside `viewport` with some padding, and centre it. */
+export function fitView(content: Size, viewport: Size, padding = 24): View {
+  const scale = clampScale(
+    Math.min((viewport.width - padding * 2) / content.width, (viewport.height - padding * 2) / content.height),
+  );
+  return {
+    scale,
+    x: (viewport.width - content.width * scale) / 2,
+    y: (viewport.height - content.height * scale) / 2,
+  };
+}
+
+/** Zoom by `factor`, keeping the point under `origin` (viewport coordinates) fixed. */
+export function zoomAt(view: View, factor: number, origin: { x: number; y: number }): View {
+  const scale = clampScale(view.scale * factor);
+  const applied = scale / view.scale;
+  return {
+    scale,
+    x: origin.x - (origin.x - view.x) * applied,
+    y: origin.y - (origin.y - view.y) * applied,
+  };
+}
+
+export function panBy(view: View, dx: number, dy: number): View {
+  return { ...view, x: view.x + dx, y: view.y + dy };
+}
+
+export function viewTransform(view: View): string {
+  return `translate(${view.x}px, ${view.y}px) scale(${view.scale})`;
+}
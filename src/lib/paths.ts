@@ -0,0 +1,73 @@
+import { getCollection, type CollectionEntry } from 'astro:content';
+
+type Path = CollectionEntry<'paths'>;
+export type PathStepType = Path['data']['steps'][number]['type'];
+
+export interface PathStep {
+  type: PathStepType;
+  id: string;
+  /** Reading-store id, e.g. "lessons/crdt". */
+  contentId: string;
+  href: string;
+  title: string;
+  tagline: string;
+  note?: string;
+}
+
+export interface LearningPath {
+  id: string;
+  title: string;
+  tagline: string;
+  timeMinutes: number;
+  steps: PathStep[];
+}
+
+export const pathStepLabels: Record<PathStepType, string> = {
+  lesson: 'Concept',
+  guide: 'Capability',
+  system: 'Case Study',
+};
+
+const collectionByType = {
+  lesson: 'lessons',
+  guide: 'guides',
+  system: 'systems',
+} as const;
+
+/**
+ * Loads every learning path with its steps resolved against the content
+ * collections, ordered by the `order` field. Steps pointing at missing
+ * entries are reported by scripts/check-content.mjs and skipped here.
+ */
+export async function getLearningPaths(): Promise<LearningPath[]> {
+  const [paths, lessons, guides, systems] = await Promise.all([
+    getCollection('paths'),
+    getCollection('lessons'),
+    getCollection('guides'),
+    getCollection('systems'),
+  ]);
+  const lookup = {
+    lessons: new Map(lessons.map((entry) => [entry.id, { title: entry.data.title, tagline: entry.data.tagline }])),
+    guides: new Map(guides.map((entry) => [entry.id, { title: entry.data.title, tagline: entry.data.tagline }])),
+    systems: new Map(systems.map((entry) => [entry.id, { title: entry.data.name, tagline: entry.data.tagline }])),
+  };
+
+  return paths
+    .sort((a, b) => a.data.order - b.data.order)
+    .map((path) => ({
+      id: path.id,
+      title: path.data.title,
+      tagline: path.data.tagline,
+      timeMinutes: path.data.timeMinutes,
+      steps: path.data.steps.flatMap(({ type, id, note }) => {
+        const collection = collectionByType[type];
+        const entry = lookup[collection].get(id);
+        if (!entry) return [];
+        return [{ type, id, contentId: `${collection}/${id}`, href: `/${collection}/${id}`, note, ...entry }];
+      }),
+    }));
+}
+
+export function getPathsForContent(paths: LearningPath[], contentId: string): LearningPath[] {
+  return paths.filter((path) => path.steps.some((step) => step.contentId === contentId));
+}
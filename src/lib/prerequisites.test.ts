@@ -0,0 +1,63 @@
+import type { CollectionEntry } from 'astro:content';
+import { describe, expect, it } from 'vitest';
+import { buildPrerequisiteGraph, getLearningOrder, layoutPrerequisiteGraph } from '@/lib/prerequisites';
+
+function lesson(id: string, prerequisites: string[] = []): CollectionEntry<'lessons'> {
+  return { id, collection: 'lessons', data: { title: id, prerequisites, timeMinutes: 5 } } as unknown as CollectionEntry<'lessons'>;
+}
+
+function layout(lessons: CollectionEntry<'lessons'>[]) {
+  return new Map(
+    layoutPrerequisiteGraph(buildPrerequisiteGraph(lessons)).map((node) => [node.lesson.id, { depth: node.depth, row: node.row }]),
+  );
+}
+
+/** No two nodes in one column closer than a row apart. */
+function expectNoOverlap(nodes: Map<string, { depth: number; row: number }>) {
+  const placed = [...nodes.values()];
+  for (const [i, a] of placed.entries()) {
+    for (const b of placed.slice(i + 1)) {
+      if (a.depth === b.depth) expect(Math.abs(a.row - b.row)).toBeGreaterThanOrEqual(1);
+    }
+  }
+}
+
+describe('layoutPrerequisiteGraph', () => {
+  it('gives two roots sharing a child separate rows', () => {
+    const nodes = layout([lesson('a'), lesson('b'), lesson('c', ['a', 'b'])]);
+    expect(nodes.get('a')!.depth).toBe(0);
+    expect(nodes.get('b')!.depth).toBe(0);
+    expect(nodes.get('c')!.depth).toBe(1);
+    expectNoOverlap(nodes);
+  });
+
+  it('centres a parent on the children it places', () => {
+    const nodes = layout([lesson('root'), lesson('x', ['root']), lesson('y', ['root'])]);
+    expect(nodes.get('root')!.row).toBe((nodes.get('x')!.row + nodes.get('y')!.row) / 2);
+  });
+
+  it('keeps columns apart in a denser graph', () => {
+    const nodes = layout([
+      lesson('a'),
+      lesson('b'),
+      lesson('c'),
+      lesson('d', ['a']),
+      lesson('e', ['a', 'b']),
+      lesson('f', ['b', 'c']),
+      lesson('g', ['c']),
+      lesson('h', ['d', 'e', 'f', 'g']),
+      lesson('i', ['e']),
+    ]);
+    expect(nodes.get('h')!.depth).toBe(2);
+    expectNoOverlap(nodes);
+  });
+});
+
+describe('getLearningOrder', () => {
+  it('lists every prerequisite before the lessons that need it', () => {
+    const graph = buildPrerequisiteGraph([lesson('a'), lesson('b', ['a']), lesson('c', ['b', 'a']), lesson('d', ['c'])]);
+    const { lessons, timeMinutes } = getLearningOrder(graph, 'd');
+    expect(lessons.map((entry) => entry.id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(timeMinutes).toBe(20);
+  });
+});
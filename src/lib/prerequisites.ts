@@ -0,0 +1,120 @@
+import type { CollectionEntry } from 'astro:content';
+
+type Lesson = CollectionEntry<'lessons'>;
+
+export interface PrerequisiteGraph {
+  lessons: Map<string, Lesson>;
+  /** Direct prerequisites per lesson, limited to ids that exist. */
+  prerequisites: Map<string, string[]>;
+  /** Lessons that list each lesson as a direct prerequisite. */
+  dependents: Map<string, string[]>;
+}
+
+export interface LearningOrder {
+  /** Every transitive prerequisite in a readable order, ending with the lesson itself. */
+  lessons: Lesson[];
+  timeMinutes: number;
+}
+
+export interface GraphNode {
+  lesson: Lesson;
+  /** Longest prerequisite chain above this lesson; roots are 0. */
+  depth: number;
+  /**
+   * Vertical slot, at least a row apart from others in the same column.
+   * Parents sit at the midpoint of their children, unless another parent
+   * placed all of them first.
+   */
+  row: number;
+}
+
+export function buildPrerequisiteGraph(lessons: Lesson[]): PrerequisiteGraph {
+  const byId = new Map(lessons.map((lesson) => [lesson.id, lesson]));
+  const prerequisites = new Map<string, string[]>();
+  const dependents = new Map<string, string[]>(lessons.map((lesson) => [lesson.id, []]));
+
+  for (const lesson of lessons) {
+    const ids = lesson.data.prerequisites.filter((id) => id !== lesson.id && byId.has(id));
+    prerequisites.set(lesson.id, ids);
+    for (const id of ids) dependents.get(id)!.push(lesson.id);
+  }
+
+  return { lessons: byId, prerequisites, dependents };
+}
+
+/**
+ * Topological "read these first" chain for one lesson. Prerequisites are
+ * visited depth-first in declared order, so each lesson appears after
+ * everything it depends on. Cycles are rejected by scripts/check-content.mjs
+ * before a build; here they are simply not followed twice.
+ */
+export function getLearningOrder(graph: PrerequisiteGraph, id: string): LearningOrder {
+  const visited = new Set<string>();
+  const order: Lesson[] = [];
+
+  function visit(current: string) {
+    if (visited.has(current)) return;
+    visited.add(current);
+    for (const next of graph.prerequisites.get(current) ?? []) visit(next);
+    const lesson = graph.lessons.get(current);
+    if (lesson) order.push(lesson);
+  }
+
+  visit(id);
+  return {
+    lessons: order,
+    timeMinutes: order.reduce((total, lesson) => total + lesson.data.timeMinutes, 0),
+  };
+}
+
+export function layoutPrerequisiteGraph(graph: PrerequisiteGraph): GraphNode[] {
+  const depths = new Map<string, number>();
+
+  function depthOf(id: string, seen: Set<string>): number {
+    const known = depths.get(id);
+    if (known !== undefined) return known;
+    if (seen.has(id)) return 0;
+    seen.add(id);
+    const parents = graph.prerequisites.get(id) ?? [];
+    const depth = parents.length === 0 ? 0 : Math.max(...parents.map((parent) => depthOf(parent, seen) + 1));
+    depths.set(id, depth);
+    return depth;
+  }
+
+  const byTitle = (a: string, b: string) =>
+    graph.lessons.get(a)!.data.title.localeCompare(graph.lessons.get(b)!.data.title);
+  const rows = new Map<string, number>();
+  let nextLeafRow = 0;
+
+  function place(id: string): number {
+    const placed = rows.get(id);
+    if (placed !== undefined) return placed;
+    rows.set(id, -1);
+    const dependents = [...(graph.dependents.get(id) ?? [])].sort(byTitle);
+    // Centring on children that another parent already placed would stack
+    // this node on top of that parent, so it takes a row of its own instead.
+    const placesAny = dependents.some((child) => !rows.has(child));
+    const children = dependents.map(place).filter((row) => row >= 0);
+    const row = !placesAny || children.length === 0 ? nextLeafRow++ : (children[0] + children[children.length - 1]) / 2;
+    rows.set(id, row);
+    return row;
+  }
+
+  const ids = [...graph.lessons.keys()].sort(byTitle);
+  for (const id of ids) depthOf(id, new Set());
+  for (const id of ids.filter((id) => depths.get(id) === 0)) place(id);
+  for (const id of ids) place(id);
+
+  // Midpoints can still land within a row of each other in one column; keep
+  // each column's order and push nodes down until they are a full row apart.
+  const columns = new Map<number, string[]>();
+  for (const id of ids) columns.set(depths.get(id)!, [...(columns.get(depths.get(id)!) ?? []), id]);
+  for (const column of columns.values()) {
+    column.sort((a, b) => rows.get(a)! - rows.get(b)!);
+    column.forEach((id, index) => {
+      if (index > 0) rows.set(id, Math.max(rows.get(id)!, rows.get(column[index - 1])! + 1));
+    });
+  }
+
+  return ids.map((id) => ({ lesson: graph.lessons.get(id)!, depth: depths.get(id)!, row: rows.get(id)! }));
+}
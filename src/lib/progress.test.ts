@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { mergeProgress, parseProgressState, type ProgressState, type ReadingItem } from '@/lib/progress';
+
+function item(id: string, timestamp: number): ReadingItem {
+  return { id, title: id, tagline: `About ${id}`, href: `/${id}`, type: 'lesson', timestamp };
+}
+
+const empty: ProgressState = { read: [], list: [], removed: [] };
+
+const ids = (state: ProgressState) => ({
+  read: state.read.map((entry) => entry.id),
+  list: state.list.map((entry) => entry.id),
+  removed: state.removed.map((entry) => entry.id),
+});
+
+describe('mergeProgress', () => {
+  it('keeps the newest copy of each id, wherever it is', () => {
+    const laptop: ProgressState = { read: [item('lessons/caching', 5)], list: [item('lessons/sharding', 1)], removed: [] };
+    const phone: ProgressState = { read: [], list: [item('lessons/caching', 3), item('lessons/sharding', 4)], removed: [] };
+    expect(ids(mergeProgress(laptop, phone))).toEqual({ read: ['lessons/caching'], list: ['lessons/sharding'], removed: [] });
+  });
+
+  it('lets a newer removal beat an older saved entry, and a newer save revive a removed one', () => {
+    const saved: ProgressState = { ...empty, list: [item('lessons/caching', 1), item('lessons/sharding', 9)] };
+    const removed: ProgressState = {
+      ...empty,
+      removed: [
+        { id: 'lessons/caching', timestamp: 2 },
+        { id: 'lessons/sharding', timestamp: 8 },
+      ],
+    };
+    for (const merged of [mergeProgress(saved, removed), mergeProgress(removed, saved)]) {
+      expect(ids(merged)).toEqual({ read: [], list: ['lessons/sharding'], removed: ['lessons/caching'] });
+    }
+  });
+
+  it('prefers read over saved over removed on equal timestamps', () => {
+    const a: ProgressState = { ...empty, list: [item('x', 7)], removed: [{ id: 'y', timestamp: 7 }] };
+    const b: ProgressState = { ...empty, read: [item('x', 7)], list: [item('y', 7)] };
+    for (const merged of [mergeProgress(a, b), mergeProgress(b, a)]) {
+      expect(ids(merged)).toEqual({ read: ['x'], list: ['y'], removed: [] });
+    }
+  });
+
+  it('puts each id in exactly one list, newest first', () => {
+    const a: ProgressState = { read: [item('a', 1), item('b', 6)], list: [item('c', 3)], removed: [{ id: 'd', timestamp: 2 }] };
+    const b: ProgressState = { read: [item('c', 4)], list: [item('a', 5), item('d', 1)], removed: [{ id: 'b', timestamp: 2 }] };
+    const merged = mergeProgress(a, b);
+    expect(ids(merged)).toEqual({ read: ['b', 'c'], list: ['a'], removed: ['d'] });
+  });
+
+  it('is commutative, associative and idempotent', () => {
+    const a: ProgressState = { read: [item('a', 1)], list: [item('b', 2)], removed: [{ id: 'c', timestamp: 3 }] };
+    const b: ProgressState = { read: [item('b', 4)], list: [item('c', 2)], removed: [{ id: 'a', timestamp: 2 }] };
+    const c: ProgressState = { read: [], list: [item('a', 3), item('d', 1)], removed: [{ id: 'b', timestamp: 5 }] };
+    expect(mergeProgress(a, b)).toEqual(mergeProgress(b, a));
+    expect(mergeProgress(mergeProgress(a, b), c)).toEqual(mergeProgress(a, mergeProgress(b, c)));
+    expect(mergeProgress(mergeProgress(a, b), mergeProgress(a, b))).toEqual(mergeProgress(a, b));
+  });
+});
+
+describe('parseProgressState', () => {
+  it('drops invalid entries and counts them', () => {
+    const { state, rejected } = parseProgressState({
+      read: [item('ok', 1), { ...item('bad', 1), href: '//evil.example' }],
+      list: [{ id: 'no-fields' }],
+      removed: [{ id: 'gone', timestamp: 2 }, { id: '', timestamp: 2 }],
+    });
+    expect(ids(state)).toEqual({ read: ['ok'], list: [], removed: ['gone'] });
+    expect(rejected).toBe(3);
+  });
+
+  it('accepts records from before tombstones', () => {
+    expect(parseProgressState({ read: [], list: [item('a', 1)] }).state.removed).toEqual([]);
+  });
+
+  it('rejects records without read and list', () => {
+    expect(() => parseProgressState(null)).toThrow();
+    expect(() => parseProgressState({ read: [] })).toThrow();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Reading progress shape and merge rules, shared by the browser store
+ * (src/scripts/reading-store.ts) and the sync endpoint (src/pages/api/sync.ts)
+ * so both sides resolve conflicts identically.
+ */
+
+export interface ReadingItem {
+  id: string;      // e.g. "lessons/caching"
+  title: string;
+  tagline: string;
+  href: string;
+  type: 'lesson' | 'guide' | 'system';
+  timestamp: number;
+}
+
+/** Records that an id was removed, so the removal survives a merge. */
+export interface Tombstone {
+  id: string;
+  timestamp: number;
+}
+
+export interface ProgressState {
+  read: ReadingItem[];
+  list: ReadingItem[];
+  removed: Tombstone[];
+}
+
+export const PROGRESS_FILE_VERSION = 1;
+
+export interface ProgressFile extends ProgressState {
+  version: typeof PROGRESS_FILE_VERSION;
+  exportedAt: number;
+}
+
+const ITEM_TYPES: ReadingItem['type'][] = ['lesson', 'guide', 'system'];
+
+export function isReadingItem(value: unknown): value is ReadingItem {
+  if (!value || typeof value !== 'object') return false;
+  const item = value as Record<string, unknown>;
+  return (
+    ['id', 'title', 'tagline', 'href'].every((key) => typeof item[key] === 'string' && item[key] !== '') &&
+    /^\/(?!\/)/.test(item.href as string) &&
+    ITEM_TYPES.includes(item.type as ReadingItem['type']) &&
+    typeof item.timestamp === 'number' &&
+    Number.isFinite(item.timestamp)
+  );
+}
+
+function isTombstone(value: unknown): value is Tombstone {
+  if (!value || typeof value !== 'object') return false;
+  const { id, timestamp } = value as Record<string, unknown>;
+  return typeof id === 'string' && id !== '' && typeof timestamp === 'number' && Number.isFinite(timestamp);
+}
+
+/**
+ * Validates an untrusted progress payload. Throws when the shape is wrong as
+ * a whole; individual entries that fail validation are dropped and counted.
+ * `removed` is optional so files exported before tombstones still import.
+ */
+export function parseProgressState(data: unknown): { state: ProgressState; rejected: number } {
+  if (!data || typeof data !== 'object') throw new Error('Not a progress record.');
+  const { read, list, removed = [] } = data as Record<string, unknown>;
+  if (!Array.isArray(read) || !Array.isArray(list) || !Array.isArray(removed)) {
+    throw new Error('Progress record is missing its read or list entries.');
+  }
+
+  const state = {
+    read: read.filter(isReadingItem),
+    list: list.filter(isReadingItem),
+    removed: removed.filter(isTombstone),
+  };
+  const total = read.length + list.length + removed.length;
+  return { state, rejected: total - state.read.length - state.list.length - state.removed.length };
+}
+
+// On equal timestamps a live entry beats a removal, and read beats saved.
+const rank = { read: 2, list: 1, removed: 0 } as const;
+type Slot = keyof typeof rank;
+
+/**
+ * Merges two progress records per id: whichever copy has the newest
+ * timestamp wins, whether it is a read entry, a saved entry, or a removal.
+ * Each id ends up in exactly one of the three lists, newest first.
+ */
+export function mergeProgress(left: ProgressState, right: ProgressState): ProgressState {
+  const newest = new Map<string, { slot: Slot; entry: ReadingItem | Tombstone }>();
+
+  for (const state of [left, right]) {
+    for (const slot of Object.keys(rank) as Slot[]) {
+      for (const entry of state[slot]) {
+        const current = newest.get(entry.id);
+        if (
+          !current ||
+          entry.timestamp > current.entry.timestamp ||
+          (entry.timestamp === current.entry.timestamp && rank[slot] > rank[current.slot])
+        ) {
+          newest.set(entry.id, { slot, entry });
+        }
+      }
+    }
+  }
+
+  const sorted = [...newest.values()].sort((a, b) => b.entry.timestamp - a.entry.timestamp);
+  const pick = <T>(slot: Slot) => sorted.filter((item) => item.slot === slot).map((item) => item.entry as T);
+  return { read: pick<ReadingItem>('read'), list: pick<ReadingItem>('list'), removed: pick<Tombstone>('removed') };
+}
@@ -0,0 +1,160 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { CollectionEntry } from 'astro:content';
+import type { z } from 'astro/zod';
+import { describe, expect, it, vi } from 'vitest';
+import { parse as parseYaml } from 'yaml';
+import { collections } from '@/content.config';
+import {
+  getGuidePromptModes,
+  getSystemPromptModes,
+  parseFeatureGuide,
+  parseSystemDesign,
+  type PromptMode,
+} from '@/lib/prompt-generator';
+
+// content.config.ts only needs defineCollection, which passes its config through.
+vi.mock('astro:content', () => ({ defineCollection: (config: unknown) => config }));
+
+/**
+ * Every entry as getCollection would return it: frontmatter validated by the
+ * collection's schema, so defaults and transforms apply, and the raw MDX body.
+ */
+function loadEntries<C extends 'systems' | 'guides'>(collection: C): CollectionEntry<C>[] {
+  const dir = join(process.cwd(), 'src/content', collection);
+  const schema = collections[collection].schema as z.ZodType;
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.mdx'))
+    .sort()
+    .map((file) => {
+      const source = readFileSync(join(dir, file), 'utf8');
+      const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+      return {
+        id: file.replace(/\.mdx$/, ''),
+        collection,
+        data: schema.parse(parseYaml(match?.[1] ?? '') ?? {}),
+        body: source.slice(match?.[0].length ?? 0),
+      } as CollectionEntry<C>;
+    });
+}
+
+/** How many times a component is written in the body, counted without the MDX parser. */
+function countTags(body: string, name: string): number {
+  return body.match(new RegExp(`<${name}[\\s>]`, 'g'))?.length ?? 0;
+}
+
+function expectFilled(label: string, values: string[]) {
+  expect(values, label).not.toHaveLength(0);
+  for (const value of values) expect(value.trim(), label).not.toBe('');
+}
+
+/** Template holes: unfilled values, headings with no body, empty bullet lists. */
+function expectNoHoles(mode: PromptMode) {
+  expect(mode.prompt, mode.id).not.toMatch(/\b(undefined|null|NaN)\b|\[object Object\]/);
+  expect(mode.prompt, mode.id).not.toMatch(/^## .*\n\s*(?:## |---|(?![\s\S]))|^### .*\n\s*(?:#|---|(?![\s\S]))/m);
+  expect(mode.prompt, mode.id).not.toMatch(/^- (\[ \] )?$|\*\*(Pros|Cons):\*\* $/m);
+}
+
+function modePrompt(modes: PromptMode[], id: PromptMode['id']): string {
+  const mode = modes.find((candidate) => candidate.id === id);
+  expect(mode, id).toBeDefined();
+  return mode!.prompt;
+}
+
+describe.each(loadEntries('systems').map((entry) => [entry.id, entry] as const))('systems/%s', (_, entry) => {
+  const system = parseSystemDesign(entry);
+  const modes = getSystemPromptModes(system);
+
+  it('parses every field', () => {
+    expectFilled('name, tagline, category, overview', [system.name, system.tagline, system.category, system.overview]);
+    expectFilled('lens', [system.lens.focus, ...system.lens.constraints, ...system.lens.costDrivers]);
+    expectFilled('scale', Object.entries(system.scale).flat());
+    expectFilled('functional requirements', system.requirements.functional);
+    expectFilled('non-functional requirements', system.requirements.nonFunctional);
+    expectFilled('components', system.components.flatMap((c) => [c.name, c.description]));
+    expectFilled('tradeoffs', system.tradeoffs.flatMap((t) => [t.decision, ...t.pros, ...t.cons]));
+    for (const t of system.tradeoffs) {
+      expectFilled(`${t.decision} pros`, t.pros);
+      expectFilled(`${t.decision} cons`, t.cons);
+    }
+    for (const diagram of system.diagrams) expectFilled('diagram', [diagram.chart]);
+  });
+
+  it('keeps every component and tradeoff written in the body', () => {
+    expect(system.components).toHaveLength(countTags(entry.body!, 'ComponentCard'));
+    expect(system.tradeoffs).toHaveLength(countTags(entry.body!, 'Tradeoff'));
+  });
+
+  it('puts every component and tradeoff in the prompts', () => {
+    const learn = modePrompt(modes, 'learn');
+    const review = modePrompt(modes, 'review');
+    for (const component of system.components) expect(learn).toContain(`### ${component.name}\n${component.description}`);
+    for (const { decision, pros, cons } of system.tradeoffs) {
+      for (const prompt of [learn, review]) expect(prompt).toContain(`### ${decision}`);
+      for (const point of [...pros, ...cons]) {
+        expect(learn).toContain(point);
+        expect(review).toContain(point);
+      }
+    }
+    for (const requirement of [...system.requirements.functional, ...system.requirements.nonFunctional]) {
+      expect(modePrompt(modes, 'interview')).toContain(`- ${requirement}`);
+    }
+  });
+
+  it('leaves no holes in any mode', () => {
+    expect(modes.map((mode) => mode.id)).toEqual(['learn', 'interview', 'review', 'estimate']);
+    modes.forEach(expectNoHoles);
+  });
+});
+
+describe.each(loadEntries('guides').map((entry) => [entry.id, entry] as const))('guides/%s', (_, entry) => {
+  const guide = parseFeatureGuide(entry);
+  const modes = getGuidePromptModes(guide);
+
+  it('parses every field', () => {
+    expectFilled('title, tagline, category, problem', [guide.title, guide.tagline, guide.category, guide.problem]);
+    expectFilled('lens', [guide.lens.defaultModel, ...guide.lens.costDrivers, ...guide.lens.breakpoints]);
+    expectFilled('approaches', guide.approaches.flatMap((a) => [a.name, a.description, ...a.pros, ...a.cons]));
+    for (const a of guide.approaches) {
+      expectFilled(`${a.name} pros`, a.pros);
+      expectFilled(`${a.name} cons`, a.cons);
+    }
+    expectFilled('components', guide.components.flatMap((c) => [c.name, c.description]));
+    expectFilled('tradeoffs', guide.tradeoffs.flatMap((t) => [t.decision, ...t.pros, ...t.cons]));
+    for (const t of guide.tradeoffs) {
+      expectFilled(`${t.decision} pros`, t.pros);
+      expectFilled(`${t.decision} cons`, t.cons);
+    }
+    for (const example of guide.realWorldExamples) expectFilled('example', [example.system, example.approach]);
+    for (const diagram of guide.diagrams) expectFilled('diagram', [diagram.chart]);
+  });
+
+  it('keeps every approach, component and tradeoff written in the body', () => {
+    expect(guide.approaches).toHaveLength(countTags(entry.body!, 'Approach'));
+    expect(guide.components).toHaveLength(countTags(entry.body!, 'ComponentCard'));
+    expect(guide.tradeoffs).toHaveLength(countTags(entry.body!, 'Tradeoff'));
+  });
+
+  it('puts every approach, component and tradeoff in the prompts', () => {
+    const learn = modePrompt(modes, 'learn');
+    const review = modePrompt(modes, 'review');
+    for (const approach of guide.approaches) {
+      expect(learn).toContain(`: ${approach.name}\n${approach.description}`);
+      expect(review).toContain(`- ${approach.name}: `);
+      for (const point of [...approach.pros, ...approach.cons]) expect(learn).toContain(point);
+    }
+    for (const component of guide.components) expect(learn).toContain(`### ${component.name}\n${component.description}`);
+    for (const { decision, pros, cons } of guide.tradeoffs) {
+      for (const prompt of [learn, review]) expect(prompt).toContain(`### ${decision}`);
+      for (const point of [...pros, ...cons]) {
+        expect(learn).toContain(point);
+        expect(review).toContain(point);
+      }
+    }
+  });
+
+  it('leaves no holes in any mode', () => {
+    expect(modes.map((mode) => mode.id)).toEqual(['learn', 'interview', 'review']);
+    modes.forEach(expectNoHoles);
+  });
+});
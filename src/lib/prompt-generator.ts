@@ -1,82 +1,123 @@
-// Legacy types kept for reference — old functions below are unused after MDX migration
-type SystemDesign = {
+import type { CollectionEntry } from 'astro:content';
+import { extractBlocks, type ContentBlocks, type DiagramBlock } from '@/lib/content-blocks';
+import { estimateLines, WORKING_ESTIMATE_HEADING, type CapacityAssumptions } from '@/lib/capacity';
+import { resolveGuideLens, resolveSystemLens, systemEvidenceLabels, type GuideLens, type SystemLens } from '@/lib/lenses';
+
+export type SystemDesign = {
   name: string; tagline: string; category: string; overview: string;
+  lens: SystemLens;
   scale: Record<string, string>;
+  /** Assumptions from the page's CapacityCalculator, when it has one. */
+  capacity?: CapacityAssumptions;
   requirements: { functional: string[]; nonFunctional: string[] };
   components: { name: string; description: string }[];
   dataModel: string;
+  diagrams: DiagramBlock[];
   deepDive: { title: string; content: string }[];
   tradeoffs: { decision: string; pros: string[]; cons: string[] }[];
 };
-type FeatureGuide = {
+export type FeatureGuide = {
   title: string; tagline: string; category: string; problem: string;
+  lens: GuideLens;
   approaches: { name: string; description: string; pros: string[]; cons: string[] }[];
   components: { name: string; description: string }[];
   dataModel: string;
+  diagrams: DiagramBlock[];
   deepDive: { title: string; content: string }[];
   realWorldExamples: { system: string; approach: string }[];
   tradeoffs: { decision: string; pros: string[]; cons: string[] }[];
 };
 
-export function generateBuildPromptFromMdx(entry: { data: { name: string; tagline: string }; body?: string }): string {
-  const { name, tagline } = entry.data;
-  const body = entry.body ?? '';
-
-  return `# Learn From a ${name}-like System
-
-You are an expert software architect and teacher. I want to learn from a ${name}-inspired system design (${tagline}) without pretending this is the exact private production architecture.
+// Sections every case study / guide has; anything else is treated as a deep dive.
+const systemSections = ['Overview', 'Scale', 'Requirements', 'High-Level Architecture', 'Key Components', 'Data Model', 'Architectural Tradeoffs'];
+const guideSections = ['The Problem', 'Architectural Approaches', 'Architecture', 'Key Components', 'Data Model', 'Real-World Examples', 'Architectural Tradeoffs'];
 
-Use the following reference as a learning model. Keep assumptions visible, avoid unsupported scale claims, and explain the engineering forces behind each design choice.
-
----
-
-## System Design Reference
-${body}
-
----
-
-## Instructions
-
-Based on the architecture above, please:
-
-1. **State the assumptions** behind the design and call out what is inferred or unknown.
-2. **Explain the 0->1 starting design** a small team could learn from without over-engineering.
-3. **Identify tradeoffs and cost drivers** including storage, egress, compute, queues, indexing, and observability where relevant.
-4. **Name the likely failure modes** and the signals that would reveal them.
-5. **Describe evolution paths** only as conditional breakpoints, not universal prescriptions.
-
-Start by asking clarifying questions about my learning goal, team context, cloud provider, budget sensitivity, and scale assumptions. Then produce an assumption-bound explanation and decision checklist.
-`;
+function sectionContent(blocks: ContentBlocks, heading: string): string {
+  return blocks.sections.find((section) => section.heading === heading)?.content ?? '';
 }
 
-export function generateGuidePromptFromMdx(entry: { data: { title: string; tagline: string }; body?: string }): string {
-  const { title, tagline } = entry.data;
-  const body = entry.body ?? '';
-
-  return `# Learn the System Design of: ${title}
-
-You are an expert software architect and teacher. I want to understand ${title.toLowerCase()} as a practical system design capability. (${tagline}).
+function deepDives(blocks: ContentBlocks, known: string[]) {
+  return blocks.sections
+    .filter((section) => section.heading && !known.includes(section.heading) && section.content)
+    .map((section) => ({ title: section.heading, content: section.content }));
+}
 
-Use the following architectural guide as a learning reference. Avoid one-size-fits-all recommendations. Keep assumptions, costs, and tradeoffs explicit.
+function splitDiagrams(diagrams: DiagramBlock[]) {
+  const dataModel = diagrams.find((diagram) => diagram.chart.trimStart().startsWith('erDiagram'));
+  return {
+    dataModel: dataModel?.chart ?? '',
+    diagrams: diagrams.filter((diagram) => diagram !== dataModel),
+  };
+}
 
----
+/** Rebuilds the structured case-study shape from the components in its MDX body. */
+export function parseSystemDesign(entry: CollectionEntry<'systems'>): SystemDesign {
+  const blocks = extractBlocks(entry.body ?? '');
+  return {
+    name: entry.data.name,
+    tagline: entry.data.tagline,
+    category: entry.data.category,
+    overview: sectionContent(blocks, 'Overview'),
+    lens: resolveSystemLens(entry),
+    scale: blocks.scale,
+    capacity: blocks.capacity,
+    requirements: blocks.requirements,
+    components: blocks.components,
+    ...splitDiagrams(blocks.diagrams),
+    deepDive: deepDives(blocks, systemSections),
+    tradeoffs: blocks.tradeoffs,
+  };
+}
 
-${body}
+/** Rebuilds the structured capability-guide shape from the components in its MDX body. */
+export function parseFeatureGuide(entry: CollectionEntry<'guides'>): FeatureGuide {
+  const blocks = extractBlocks(entry.body ?? '');
+  return {
+    title: entry.data.title,
+    tagline: entry.data.tagline,
+    category: entry.data.category,
+    problem: sectionContent(blocks, 'The Problem'),
+    lens: resolveGuideLens(entry),
+    approaches: blocks.approaches,
+    components: blocks.components,
+    ...splitDiagrams(blocks.diagrams),
+    deepDive: deepDives(blocks, guideSections),
+    realWorldExamples: blocks.examples,
+    tradeoffs: blocks.tradeoffs,
+  };
+}
 
----
+/** A `## Title` block, or nothing when the body is empty so prompts skip missing sections. */
+function section(title: string, body: string): string {
+  return body.trim() ? `## ${title}\n${body.trim()}\n\n` : '';
+}
 
-## Instructions
+function systemLensSection(lens: SystemLens): string {
+  const evidence = systemEvidenceLabels[lens.evidence];
+  return [
+    `**Evidence:** ${evidence.label}. ${evidence.description}`,
+    `**What it teaches:** ${lens.focus}`,
+    `**Shaping constraints:** ${lens.constraints.join('; ')}`,
+    `**Cost drivers:** ${lens.costDrivers.join('; ')}`,
+  ].join('\n');
+}
 
-Based on the architecture above, please:
+function guideLensSection(lens: GuideLens): string {
+  return [
+    `**0->1 default:** ${lens.defaultModel}`,
+    `**Cost drivers:** ${lens.costDrivers.join('; ')}`,
+    `**Breakpoints:** ${lens.breakpoints.join('; ')}`,
+  ].join('\n');
+}
 
-1. **State the assumptions** and what would change if the team, scale, or cloud provider changed.
-2. **Explain the 0->1 design** and why it is a reasonable starting point.
-3. **Compare the key tradeoffs** without claiming a universal best answer.
-4. **Identify cost drivers and failure modes** that teams should understand early.
-5. **List the measurements and breakpoints** that would justify evolving the design.
+function diagramSection(diagrams: DiagramBlock[]): string {
+  return diagrams
+    .map((d, i) => `### ${d.caption ?? `Diagram ${i + 1}`}\n\`\`\`mermaid\n${d.chart}\n\`\`\``)
+    .join('\n\n');
+}
 
-Start by asking clarifying questions about my context. Then produce an assumption-bound learning summary, decision checklist, and measurement plan.
-`;
+function mermaidFence(chart: string): string {
+  return chart ? `\`\`\`mermaid\n${chart}\n\`\`\`` : '';
 }
 
 export function generateBuildPrompt(system: SystemDesign): string {
@@ -115,33 +156,7 @@ Use the following reference as a learning model. Keep assumptions visible, avoid
 
 ---
 
-## Overview
-${system.overview}
-
-## Target Scale
-${scaleLines}
-
-## Functional Requirements
-${funcReqs}
-
-## Non-Functional Requirements
-${nonFuncReqs}
-
-## Architecture Components
-${components}
-
-## Data Model (Mermaid ER Diagram)
-\`\`\`mermaid
-${system.dataModel}
-\`\`\`
-
-## Key Architectural Deep Dives
-${deepDives}
-
-## Tradeoffs to Consider
-${tradeoffs}
-
----
+${section('Learning Lens', systemLensSection(system.lens))}${section('Overview', system.overview)}${section('Target Scale', scaleLines)}${section('Functional Requirements', funcReqs)}${section('Non-Functional Requirements', nonFuncReqs)}${section('Architecture Components', components)}${section('Architecture Diagrams', diagramSection(system.diagrams))}${section('Data Model (Mermaid ER Diagram)', mermaidFence(system.dataModel))}${section('Key Architectural Deep Dives', deepDives)}${section('Tradeoffs to Consider', tradeoffs)}---
 
 ## Instructions
 
@@ -192,41 +207,289 @@ Use the following architectural guide as a learning reference. Avoid one-size-fi
 
 ---
 
-## Problem
-${guide.problem}
+${section('Learning Lens', guideLensSection(guide.lens))}${section('Problem', guide.problem)}${section('Architectural Approaches', approaches)}${section('Key Components', components)}${section('Architecture Diagrams', diagramSection(guide.diagrams))}${section('Data Model (Mermaid ER Diagram)', mermaidFence(guide.dataModel))}${section('Deep Dives', deepDives)}${section('Real-World Examples', examples)}${section('Tradeoffs', tradeoffs)}---
+
+## Instructions
+
+Based on the architecture above, please:
+
+1. **State the assumptions** and what would change if the team, scale, or cloud provider changed.
+2. **Explain the 0->1 design** and why it is a reasonable starting point.
+3. **Compare the key tradeoffs** without claiming a universal best answer.
+4. **Identify cost drivers and failure modes** that teams should understand early.
+5. **List the measurements and breakpoints** that would justify evolving the design.
+
+Start by asking clarifying questions about my context. Then produce an assumption-bound learning summary, decision checklist, and measurement plan.
+`;
+}
+
+export type PromptModeId = 'learn' | 'interview' | 'review' | 'estimate';
+
+/** One selectable template in `CopyPromptButton`. */
+export interface PromptMode {
+  id: PromptModeId;
+  label: string;
+  description: string;
+  prompt: string;
+}
+
+export type LessonNote = {
+  title: string; tagline: string; level: string;
+  sections: { heading: string; content: string }[];
+};
+
+export function parseLessonNote(entry: CollectionEntry<'lessons'>): LessonNote {
+  return {
+    title: entry.data.title,
+    tagline: entry.data.tagline,
+    level: entry.data.level,
+    sections: extractBlocks(entry.body ?? '').sections.filter((s) => s.heading && s.content),
+  };
+}
+
+function bullets(items: string[]): string {
+  return items.map((item) => `- ${item}`).join('\n');
+}
+
+function checklist(items: string[]): string {
+  return items.map((item) => `- [ ] ${item}`).join('\n');
+}
+
+function tradeoffChecks(tradeoffs: { decision: string; pros: string[]; cons: string[] }[]): string {
+  return tradeoffs
+    .map(
+      (t) =>
+        `### ${t.decision}\n${checklist([
+          ...t.pros.map((pro) => `Do we actually need: ${pro}?`),
+          ...t.cons.map((con) => `How do we live with: ${con}?`),
+        ])}`
+    )
+    .join('\n\n');
+}
+
+export function generateInterviewPrompt(system: SystemDesign): string {
+  return `# Mock System Design Interview: Design ${system.name}
+
+You are a senior engineer running a 45-minute system design interview. I am the candidate. The brief below is all I have been given; do not show me a reference design.
+
+---
+
+${section('Brief', `Design a system like ${system.name}: ${system.tagline}.`)}${section('Scale to Assume', bullets(Object.entries(system.scale).map(([k, v]) => `${k}: ${v}`)))}${section('Functional Requirements', bullets(system.requirements.functional))}${section('Non-Functional Requirements', bullets(system.requirements.nonFunctional))}---
 
-## Architectural Approaches
-${approaches}
+## Instructions
 
-## Key Components
-${components}
+1. Run the interview one question at a time and wait for my answer before moving on.
+2. Start with requirements clarification, then API and data model, high-level design, and one or two deep dives.
+3. Push back on vague answers and ask for numbers when I make capacity claims.
+4. Never volunteer the solution; give hints only when I ask for one.
+5. When I say "done", score me on requirements, design, tradeoffs, and communication, and list what a strong answer would have covered.
+`;
+}
 
-## Data Model (Mermaid ER Diagram)
-\`\`\`mermaid
-${guide.dataModel}
-\`\`\`
+export function generateGuideInterviewPrompt(guide: FeatureGuide): string {
+  return `# Mock System Design Interview: ${guide.title}
 
-## Deep Dives
-${deepDives}
+You are a senior engineer running a system design interview focused on one capability. I am the candidate. Do not show me a reference design.
 
-## Real-World Examples
-${examples}
+---
+
+${section('Brief', `Design ${guide.title.toLowerCase()} for a product that needs it: ${guide.tagline}.`)}${section('Problem', guide.problem)}---
+
+## Instructions
+
+1. Ask one question at a time and wait for my answer.
+2. Make me compare at least two approaches and justify the one I pick.
+3. Probe failure modes, data model, and how the design changes at 10x and 100x load.
+4. Never volunteer the solution; give hints only when I ask for one.
+5. When I say "done", score my answer and list what a strong answer would have covered.
+`;
+}
+
+export function generateLessonInterviewPrompt(lesson: LessonNote): string {
+  return `# Concept Drill: ${lesson.title}
 
-## Tradeoffs
-${tradeoffs}
+You are an interviewer checking whether I really understand ${lesson.title} (${lesson.tagline}).
+
+## Instructions
+
+1. Ask me five questions, one at a time, moving from definition to tradeoffs to a design scenario where I must decide whether to use it.
+2. Wait for each answer, then tell me what was right, what was missing, and what a strong answer adds.
+3. Do not explain the concept up front.
+4. Finish with a short list of the gaps you noticed.
+`;
+}
+
+export function generateReviewPrompt(system: SystemDesign): string {
+  return `# Design Review Checklist: ${system.name}-like System
+
+You are a principal engineer reviewing my design for a system like ${system.name} (${system.tagline}). I will paste my design after this message. Review it against the checklist below, which comes from a reference design's requirements and tradeoffs.
 
 ---
 
+${section('Requirements Coverage', checklist([...system.requirements.functional, ...system.requirements.nonFunctional]))}${section('Shaping Constraints', checklist(system.lens.constraints))}${section('Tradeoff Decisions', tradeoffChecks(system.tradeoffs))}---
+
 ## Instructions
 
-Based on the architecture above, please:
+1. For every checklist item, mark it covered, partially covered, or missing in my design, quoting the part of my design you relied on.
+2. Flag decisions I made without stating the tradeoff.
+3. List the top three risks, each with the signal that would reveal it in production.
+4. Ask for anything you need to complete the review before guessing.
+`;
+}
 
-1. **State the assumptions** and what would change if the team, scale, or cloud provider changed.
-2. **Explain the 0->1 design** and why it is a reasonable starting point.
-3. **Compare the key tradeoffs** without claiming a universal best answer.
-4. **Identify cost drivers and failure modes** that teams should understand early.
-5. **List the measurements and breakpoints** that would justify evolving the design.
+export function generateGuideReviewPrompt(guide: FeatureGuide): string {
+  const alternatives = bullets(guide.approaches.map((a) => `${a.name}: ${a.pros[0] ?? ''} / ${a.cons[0] ?? ''}`));
 
-Start by asking clarifying questions about my context. Then produce an assumption-bound learning summary, decision checklist, and measurement plan.
+  return `# Design Review Checklist: ${guide.title}
+
+You are a principal engineer reviewing my design for ${guide.title.toLowerCase()} (${guide.tagline}). I will paste my design after this message. Review it against the checklist below, which comes from a reference guide's approaches and tradeoffs.
+
+---
+
+${section('Approaches I Should Have Considered', alternatives)}${section('Tradeoff Decisions', tradeoffChecks(guide.tradeoffs))}${section('Breakpoints to Plan For', checklist(guide.lens.breakpoints))}---
+
+## Instructions
+
+1. Say which approach my design is closest to and whether the choice fits my stated constraints.
+2. For every checklist item, mark it covered, partially covered, or missing.
+3. List the top three risks, each with the signal that would reveal it in production.
+4. Ask for anything you need to complete the review before guessing.
 `;
 }
+
+export function generateEstimatePrompt(system: SystemDesign): string {
+  const working = system.capacity ? bullets(estimateLines(system.capacity)) : '';
+
+  return `# Back-of-Envelope Capacity Estimate: ${system.name}-like System
+
+You are a capacity planner. Walk me through a back-of-envelope estimate for a system like ${system.name} (${system.tagline}), seeded from the figures below. Treat them as published or approximate numbers, not facts about a private deployment.
+
+---
+
+${section('Seed Figures', bullets(Object.entries(system.scale).map(([k, v]) => `${k}: ${v}`)))}${section(WORKING_ESTIMATE_HEADING, working)}${section('Constraints', bullets(system.requirements.nonFunctional))}---
+
+## Instructions
+
+1. Convert the seed figures into peak requests per second, assuming a peak-to-average ratio you state explicitly.${working ? ' Check my working estimate against them and say which assumptions look off.' : ''}
+2. Estimate storage growth per day and per year, and bandwidth in and out.
+3. Estimate cache memory, server counts, and the dominant monthly cost drivers.
+4. Show every step of arithmetic and round aggressively; label each assumption.
+5. Finish with which number, if wrong by 10x, would change the architecture most.
+`;
+}
+
+/** The estimate prompt for the standalone calculator, where there is no case study behind the numbers. */
+export function generateCapacityPrompt(assumptions: CapacityAssumptions): string {
+  return `# Back-of-Envelope Capacity Review
+
+You are a capacity planner. Review the working estimate below for a system I am designing, then take it further.
+
+---
+
+${section(WORKING_ESTIMATE_HEADING, bullets(estimateLines(assumptions)))}---
+
+## Instructions
+
+1. Ask what the system does before judging the assumptions, then say which ones look unrealistic for it.
+2. Re-derive the load, storage, bandwidth and cache figures and point out any arithmetic I got wrong.
+3. Estimate server counts and the dominant monthly cost drivers.
+4. Show every step of arithmetic and round aggressively; label each assumption.
+5. Finish with which number, if wrong by 10x, would change the architecture most.
+`;
+}
+
+export function generateLessonPrompt(lesson: LessonNote): string {
+  const notes = lesson.sections.map((s) => section(s.heading, s.content)).join('');
+
+  return `# Learn the Concept: ${lesson.title}
+
+You are an expert software architect and teacher. I want to understand ${lesson.title} (${lesson.tagline}) at the ${lesson.level} level.
+
+Use the following notes as a starting point, and correct them if anything is oversimplified.
+
+---
+
+${notes}---
+
+## Instructions
+
+1. Explain the concept in plain language, then with a concrete example.
+2. Show where it appears in real systems and what problem it solves there.
+3. Name the failure modes and the tradeoffs that make teams avoid it.
+4. Finish with three questions I should be able to answer if I understood it.
+`;
+}
+
+export function getSystemPromptModes(system: SystemDesign): PromptMode[] {
+  const modes: PromptMode[] = [
+    {
+      id: 'learn',
+      label: 'Learn',
+      description: 'A learning context prompt that keeps assumptions visible and asks for tradeoffs, cost drivers, failure modes, and what to measure.',
+      prompt: generateBuildPrompt(system),
+    },
+    {
+      id: 'interview',
+      label: 'Interview drill',
+      description: 'A mock interview: the model gets only the brief and requirements, then interviews you without revealing the design.',
+      prompt: generateInterviewPrompt(system),
+    },
+    {
+      id: 'review',
+      label: 'Design review',
+      description: "A review checklist built from this page's requirements and tradeoffs, to run against your own design.",
+      prompt: generateReviewPrompt(system),
+    },
+  ];
+  if (Object.keys(system.scale).length > 0 || system.capacity) {
+    modes.push({
+      id: 'estimate',
+      label: 'Cost estimate',
+      description: system.capacity
+        ? "A back-of-envelope capacity and cost estimate seeded from this page's scale figures and calculator, including your edits."
+        : "A back-of-envelope capacity and cost estimate seeded from this page's scale figures.",
+      prompt: generateEstimatePrompt(system),
+    });
+  }
+  return modes;
+}
+
+export function getGuidePromptModes(guide: FeatureGuide): PromptMode[] {
+  return [
+    {
+      id: 'learn',
+      label: 'Learn',
+      description: 'A learning context prompt that keeps assumptions visible and asks for tradeoffs, cost drivers, failure modes, and what to measure.',
+      prompt: generateGuidePrompt(guide),
+    },
+    {
+      id: 'interview',
+      label: 'Interview drill',
+      description: 'A mock interview: the model gets only the problem statement, then interviews you without revealing the approaches.',
+      prompt: generateGuideInterviewPrompt(guide),
+    },
+    {
+      id: 'review',
+      label: 'Design review',
+      description: "A review checklist built from this guide's approaches and tradeoffs, to run against your own design.",
+      prompt: generateGuideReviewPrompt(guide),
+    },
+  ];
+}
+
+export function getLessonPromptModes(lesson: LessonNote): PromptMode[] {
+  return [
+    {
+      id: 'learn',
+      label: 'Learn',
+      description: 'A teaching prompt seeded with these notes that asks for an example, real-world uses, and failure modes.',
+      prompt: generateLessonPrompt(lesson),
+    },
+    {
+      id: 'interview',
+      label: 'Interview drill',
+      description: 'A five-question drill that checks your understanding without explaining the concept first.',
+      prompt: generateLessonInterviewPrompt(lesson),
+    },
+  ];
+}
@@ -0,0 +1,102 @@
+import type { CollectionEntry } from 'astro:content';
+
+export type ContentCollection = 'lessons' | 'guides' | 'systems';
+export type ContentEntry = CollectionEntry<ContentCollection>;
+
+export interface RelationshipIndex {
+  /** Entries keyed by reading-store id, e.g. "systems/discord". */
+  entries: Map<string, ContentEntry>;
+  /** Declared links, stored in both directions. */
+  links: Map<string, Set<string>>;
+}
+
+const declaredFields = {
+  relatedLessons: 'lessons',
+  relatedGuides: 'guides',
+  relatedSystems: 'systems',
+} as const;
+
+export function contentKey(entry: ContentEntry): string {
+  return `${entry.collection}/${entry.id}`;
+}
+
+export function contentTitle(entry: ContentEntry): string {
+  return entry.collection === 'systems' ? entry.data.name : entry.data.title;
+}
+
+// Tags arrive in canonical form from the content schema, so exact matches suffice.
+function overlapCount(left: string[], right: string[]) {
+  const rightSet = new Set(right);
+  return left.reduce((count, item) => count + (rightSet.has(item) ? 1 : 0), 0);
+}
+
+/**
+ * Merges every `relatedLessons` / `relatedGuides` / `relatedSystems`
+ * declaration into one undirected link set, so a guide that names a lesson
+ * is also linked from that lesson (and vice versa).
+ */
+export function buildRelationshipIndex(collections: {
+  lessons: CollectionEntry<'lessons'>[];
+  guides: CollectionEntry<'guides'>[];
+  systems: CollectionEntry<'systems'>[];
+}): RelationshipIndex {
+  const all: ContentEntry[] = [...collections.lessons, ...collections.guides, ...collections.systems];
+  const entries = new Map(all.map((entry) => [contentKey(entry), entry]));
+  const links = new Map<string, Set<string>>([...entries.keys()].map((key) => [key, new Set<string>()]));
+
+  for (const entry of all) {
+    const from = contentKey(entry);
+    for (const [field, collection] of Object.entries(declaredFields) as [keyof typeof declaredFields, ContentCollection][]) {
+      for (const id of entry.data[field]) {
+        const to = `${collection}/${id}`;
+        if (to === from || !entries.has(to)) continue;
+        links.get(from)!.add(to);
+        links.get(to)!.add(from);
+      }
+    }
+  }
+
+  return { entries, links };
+}
+
+/** Entries of one collection that declare a link to, or are linked from, `entry`. */
+export function getLinked<C extends ContentCollection>(
+  index: RelationshipIndex,
+  entry: ContentEntry,
+  collection: C,
+): CollectionEntry<C>[] {
+  return [...(index.links.get(contentKey(entry)) ?? [])]
+    .map((key) => index.entries.get(key)!)
+    .filter((other): other is CollectionEntry<C> => other.collection === collection)
+    .sort((a, b) => contentTitle(a).localeCompare(contentTitle(b)));
+}
+
+/**
+ * Ranks entries of one collection by relevance to `entry`: a declared link
+ * in either direction dominates, then shared tags, then a shared category
+ * within the same collection.
+ */
+export function getRelated<C extends ContentCollection>(
+  index: RelationshipIndex,
+  entry: ContentEntry,
+  collection: C,
+  { limit = 4, exclude = [] }: { limit?: number; exclude?: string[] } = {},
+): CollectionEntry<C>[] {
+  const key = contentKey(entry);
+  const linked = index.links.get(key) ?? new Set<string>();
+  const excluded = new Set([key, ...exclude]);
+
+  return [...index.entries.values()]
+    .filter((other): other is CollectionEntry<C> => other.collection === collection && !excluded.has(contentKey(other)))
+    .map((other) => ({
+      other,
+      score:
+        (linked.has(contentKey(other)) ? 100 : 0) +
+        overlapCount(other.data.tags, entry.data.tags) +
+        (other.collection === entry.collection && other.data.category === entry.data.category ? 1 : 0),
+    }))
+    .filter((item) => item.score > 0)
+    .sort((a, b) => b.score - a.score || contentTitle(a.other).localeCompare(contentTitle(b.other)))
+    .slice(0, limit)
+    .map((item) => item.other);
+}
@@ -0,0 +1,50 @@
+import { extractBlocks } from '@/lib/content-blocks';
+import { contentKey, contentTitle, type ContentEntry } from '@/lib/relationships';
+
+export interface ReviewCard {
+  /** Reading-store id of the entry the card belongs to, e.g. "lessons/crdt". */
+  contentId: string;
+  question: string;
+  answer: string;
+}
+
+// Lesson notes share one heading template; each heading becomes a recall question.
+const lessonQuestions: Partial<Record<string, (title: string) => string>> = {
+  'What it is': (title) => `What is ${title}?`,
+  'Why it matters': (title) => `Why does ${title} matter?`,
+  'How it works': (title) => `How does ${title} work?`,
+  'When to use it': (title) => `When should you reach for ${title}?`,
+  'Tradeoffs / failure modes': (title) => `What are the tradeoffs and failure modes of ${title}?`,
+  'Tiny example': (title) => `Give a tiny example of ${title}.`,
+};
+
+/**
+ * Quiz cards for one entry: a card per known lesson heading, plus a card per
+ * `<Tradeoff>` asking what the decision gains and gives up.
+ */
+export function buildReviewCards(entry: ContentEntry): ReviewCard[] {
+  const contentId = contentKey(entry);
+  const title = contentTitle(entry);
+  const blocks = extractBlocks(entry.body ?? '');
+
+  const sectionCards =
+    entry.collection === 'lessons'
+      ? blocks.sections.flatMap(({ heading, content }) => {
+          const question = lessonQuestions[heading];
+          return question && content ? [{ contentId, question: question(title), answer: content }] : [];
+        })
+      : [];
+
+  const tradeoffCards = blocks.tradeoffs
+    .filter((tradeoff) => tradeoff.decision && (tradeoff.pros.length > 0 || tradeoff.cons.length > 0))
+    .map((tradeoff) => ({
+      contentId,
+      question: `${title}: what does "${tradeoff.decision}" gain, and what does it give up?`,
+      answer: [
+        ...tradeoff.pros.map((pro) => `+ ${pro}`),
+        ...tradeoff.cons.map((con) => `− ${con}`),
+      ].join('\n'),
+    }));
+
+  return [...sectionCards, ...tradeoffCards];
+}
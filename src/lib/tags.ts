@@ -0,0 +1,246 @@
+// Keep this module free of `@/` imports: scripts/check-content.mjs loads it
+// directly with Node, outside of Vite's alias resolution.
+
+/**
+ * Canonical tags shared by lessons, guides and systems. Frontmatter may use
+ * a tag's name, its slug, or any alias, in any casing; the content schema
+ * rewrites them to the canonical name, and the content check fails on tags
+ * that resolve to nothing here.
+ */
+
+export interface TagDefinition {
+  name: string;
+  description: string;
+  /** Other spellings that mean the same thing, e.g. "cache" for caching. */
+  aliases?: string[];
+}
+
+/** Keyed by slug, which is also the /tags/[tag] URL segment. */
+export const tagRegistry: Record<string, TagDefinition> = {
+  'a-b-testing': { name: 'A/B testing', description: 'Splitting traffic between variants to measure which one performs better.', aliases: ['experimentation'] },
+  ads: { name: 'ads', description: 'Serving, targeting and measuring advertising inside a product.' },
+  ai: { name: 'AI', description: 'Products and infrastructure built around machine-learned models.' },
+  analytics: { name: 'analytics', description: 'Collecting and aggregating events to answer questions about usage.' },
+  api: { name: 'API', description: 'Interfaces other programs call, and the contracts they promise.' },
+  apns: { name: 'APNs', description: "Apple Push Notification service, the delivery path to iOS devices." },
+  async: { name: 'async', description: 'Work that completes after the request that started it has returned.' },
+  audit: { name: 'audit', description: 'Recording who did what and when, so it can be reviewed later.' },
+  authentication: { name: 'authentication', description: 'Establishing who a user or service is.', aliases: ['auth', 'login'] },
+  authorization: { name: 'authorization', description: 'Deciding what an authenticated identity is allowed to do.' },
+  availability: { name: 'availability', description: 'Keeping a service answering requests despite failures.' },
+  'background-jobs': { name: 'background-jobs', description: 'Work handed to workers outside the request path.', aliases: ['jobs', 'workers'] },
+  backoff: { name: 'backoff', description: 'Waiting longer between successive retries to let a dependency recover.' },
+  backpressure: { name: 'backpressure', description: 'Slowing producers down when consumers cannot keep up.' },
+  'backward-compatibility': { name: 'backward-compatibility', description: 'Changing an interface without breaking existing clients.' },
+  bidirectional: { name: 'bidirectional', description: 'Connections where both ends can send at any time.' },
+  'bloom-filter': { name: 'Bloom filter', description: 'A compact probabilistic set that can answer "definitely not" or "maybe".' },
+  booking: { name: 'booking', description: 'Reserving limited inventory such as rooms, seats or rides.' },
+  caching: { name: 'caching', description: 'Keeping copies of data closer to readers to cut latency and load.', aliases: ['cache'] },
+  cassandra: { name: 'Cassandra', description: 'A wide-column database built for write-heavy, partitioned workloads.' },
+  cdn: { name: 'CDN', description: 'Content delivery networks that serve assets from locations near users.' },
+  certificates: { name: 'certificates', description: 'Issuing, renewing and storing TLS certificates.' },
+  channels: { name: 'channels', description: 'Named conversations or topics that members subscribe to.' },
+  chunked: { name: 'chunked', description: 'Moving large payloads in independently retried pieces.' },
+  'ci-cd': { name: 'CI/CD', description: 'Building, testing and shipping every change automatically.' },
+  'circuit-breaker': { name: 'circuit-breaker', description: 'Failing fast when a dependency is unhealthy instead of piling on.' },
+  cloud: { name: 'cloud', description: 'Running on rented infrastructure and managed services.' },
+  cloudflare: { name: 'Cloudflare', description: "Cloudflare's edge network, CDN and Workers platform." },
+  cloudfront: { name: 'CloudFront', description: "Amazon's CDN in front of S3 and other AWS origins." },
+  cname: { name: 'CNAME', description: 'DNS records that alias one hostname to another.' },
+  'code-hosting': { name: 'code-hosting', description: 'Storing repositories and serving them to developers and tools.' },
+  collaboration: { name: 'collaboration', description: 'Several people working on the same thing at once.' },
+  'collaborative-filtering': { name: 'collaborative-filtering', description: 'Recommending items liked by users with similar behaviour.' },
+  communities: { name: 'communities', description: 'Groups of users organised around shared spaces.' },
+  compliance: { name: 'compliance', description: 'Meeting legal and industry rules such as GDPR, SOC 2 or PCI.' },
+  conferencing: { name: 'conferencing', description: 'Multi-party audio and video calls.' },
+  'conflict-resolution': { name: 'conflict-resolution', description: 'Merging concurrent edits to the same data.' },
+  consistency: { name: 'consistency', description: 'What readers are guaranteed to see after a write.' },
+  correctness: { name: 'correctness', description: 'Producing the right answer even under retries, races and failures.' },
+  crdt: { name: 'CRDT', description: 'Data types whose replicas always converge without coordination.' },
+  cryptography: { name: 'cryptography', description: 'Primitives for secrecy, integrity and signatures.' },
+  'custom-domains': { name: 'custom-domains', description: 'Serving a tenant from a hostname they own.' },
+  dash: { name: 'DASH', description: 'MPEG-DASH, adaptive bitrate streaming over HTTP.' },
+  data: { name: 'data', description: 'How data is stored, indexed and queried.' },
+  database: { name: 'database', description: 'Choosing, modelling and operating a primary datastore.' },
+  deployment: { name: 'deployment', description: 'Getting a new version into production safely.' },
+  deprecation: { name: 'deprecation', description: 'Retiring an interface while clients still depend on it.' },
+  'developer-tools': { name: 'developer-tools', description: 'Products whose users are software engineers.' },
+  'distributed-systems': { name: 'distributed-systems', description: 'Systems whose parts fail and communicate independently.', aliases: ['distributed'] },
+  django: { name: 'Django', description: 'The Python web framework.' },
+  dns: { name: 'DNS', description: 'Resolving names to addresses, and routing traffic with it.' },
+  documents: { name: 'documents', description: 'Rich text and files edited by people.' },
+  e2ee: { name: 'E2EE', description: 'End-to-end encryption, where only the endpoints can read messages.' },
+  edge: { name: 'edge', description: 'Running logic or caching content close to users.' },
+  elasticsearch: { name: 'Elasticsearch', description: 'A distributed search engine built on Lucene.' },
+  elixir: { name: 'Elixir', description: 'A functional language on the Erlang VM, known for concurrency.' },
+  email: { name: 'email', description: 'Sending, receiving and storing mail.' },
+  embeddings: { name: 'embeddings', description: 'Vectors that place similar items near each other.' },
+  encryption: { name: 'encryption', description: 'Protecting data in transit and at rest.' },
+  enterprise: { name: 'enterprise', description: 'Requirements that come with selling to large organisations.' },
+  erlang: { name: 'Erlang', description: 'The language and VM behind many messaging backends.' },
+  events: { name: 'events', description: 'Facts about what happened, published for others to react to.' },
+  eventsource: { name: 'EventSource', description: 'The browser API for server-sent events.' },
+  failures: { name: 'failures', description: 'How components break and how the system behaves when they do.' },
+  'fan-out': { name: 'fan-out', description: 'Delivering one write to many readers.' },
+  fcm: { name: 'FCM', description: 'Firebase Cloud Messaging, the push path to Android and the web.' },
+  'feature-flags': { name: 'feature-flags', description: 'Switching behaviour at runtime without a deploy.' },
+  feeds: { name: 'feeds', description: 'Personalised streams of posts assembled per user.', aliases: ['feed'] },
+  ffmpeg: { name: 'FFmpeg', description: 'The toolkit most media pipelines use to decode and encode.' },
+  files: { name: 'files', description: 'Storing and serving user-uploaded files.' },
+  fintech: { name: 'fintech', description: 'Products that move or hold money.' },
+  gaming: { name: 'gaming', description: 'Communities and infrastructure around games.' },
+  gateway: { name: 'gateway', description: 'A single entry point that routes and guards requests.' },
+  geospatial: { name: 'geospatial', description: 'Indexing and querying by location.' },
+  git: { name: 'Git', description: 'The distributed version control system.' },
+  google: { name: 'google', description: "Case studies from Google's product line." },
+  gpu: { name: 'GPU', description: 'Accelerators for training and serving models.' },
+  hashing: { name: 'hashing', description: 'Mapping keys to buckets, shards or fingerprints.' },
+  heartbeat: { name: 'heartbeat', description: 'Periodic signals that show a client or node is still alive.' },
+  hls: { name: 'HLS', description: 'HTTP Live Streaming, segmented adaptive video.' },
+  hmac: { name: 'HMAC', description: 'Keyed hashes that prove a message was not tampered with.' },
+  http: { name: 'HTTP', description: 'The request and response protocol of the web.' },
+  'hybrid-cloud': { name: 'hybrid-cloud', description: 'Mixing owned data centres with public cloud.' },
+  idempotency: { name: 'idempotency', description: 'Making a repeated request have the same effect as one.' },
+  immutable: { name: 'immutable', description: 'Data that is appended to and never edited in place.' },
+  inference: { name: 'inference', description: 'Running a trained model to produce predictions.' },
+  integration: { name: 'integration', description: 'Connecting with third-party systems.' },
+  invalidation: { name: 'invalidation', description: 'Removing stale copies when the source changes.' },
+  'inverted-index': { name: 'inverted-index', description: 'Term-to-document lookups that power full-text search.', aliases: ['index'] },
+  isolation: { name: 'isolation', description: "Keeping one tenant's load or data from affecting another's." },
+  jwt: { name: 'JWT', description: 'Signed JSON tokens carrying claims between services.' },
+  latency: { name: 'latency', description: 'How long a request takes, especially at the tail.' },
+  llm: { name: 'LLM', description: 'Large language models and the systems that serve them.' },
+  'load-balancer': { name: 'load-balancer', description: 'Spreading requests across healthy backends.' },
+  logging: { name: 'logging', description: 'Structured records of what a system did.', aliases: ['logs'] },
+  maps: { name: 'maps', description: 'Rendering and serving map data.' },
+  marketplace: { name: 'marketplace', description: 'Two-sided platforms matching supply with demand.' },
+  matching: { name: 'matching', description: 'Pairing requests with providers in real time.' },
+  media: { name: 'media', description: 'Images, audio and video as stored and delivered content.' },
+  messaging: { name: 'messaging', description: 'Delivering messages between users.' },
+  metrics: { name: 'metrics', description: 'Numeric time series for dashboards and alerts.' },
+  microservices: { name: 'microservices', description: 'Splitting a system into independently deployed services.' },
+  ml: { name: 'ML', description: 'Machine learning models, features and training pipelines.' },
+  mobile: { name: 'mobile', description: 'Constraints of phones: flaky networks, battery, background limits.' },
+  mtproto: { name: 'MTProto', description: "Telegram's custom transport and encryption protocol." },
+  'multi-tenant': { name: 'multi-tenant', description: 'Serving many customers from shared infrastructure.' },
+  navigation: { name: 'navigation', description: 'Turn-by-turn routing and ETAs.' },
+  notifications: { name: 'notifications', description: 'Telling users something happened, on any channel.' },
+  oauth2: { name: 'OAuth2', description: 'Delegated authorization between apps and providers.' },
+  'object-storage': { name: 'object-storage', description: 'Flat, durable blob stores such as S3.' },
+  observability: { name: 'observability', description: 'Understanding a running system from its outputs.' },
+  oidc: { name: 'OIDC', description: 'OpenID Connect, identity on top of OAuth2.' },
+  'open-source': { name: 'open-source', description: 'Software developed and distributed in the open.' },
+  ot: { name: 'OT', description: 'Operational transformation for concurrent document edits.' },
+  partitioning: { name: 'partitioning', description: 'Splitting data or work so parts scale independently.' },
+  payments: { name: 'payments', description: 'Charging, refunding and reconciling money.' },
+  pci: { name: 'PCI', description: 'The card industry rules for handling payment data.' },
+  performance: { name: 'performance', description: 'Doing the same work faster or with fewer resources.' },
+  permissions: { name: 'permissions', description: 'Per-resource rules about who can see or change what.' },
+  personalization: { name: 'personalization', description: 'Tailoring content to each user.' },
+  photos: { name: 'photos', description: 'Storing, processing and browsing image libraries.' },
+  policy: { name: 'policy', description: 'Access rules expressed as data rather than code.' },
+  presence: { name: 'presence', description: 'Showing who is online, typing or in a call.' },
+  privacy: { name: 'privacy', description: 'Limiting what is collected and who can see it.' },
+  probabilistic: { name: 'probabilistic', description: 'Structures that trade exactness for memory or speed.' },
+  'proprietary-codec': { name: 'proprietary-codec', description: 'In-house media codecs tuned for a product.' },
+  protection: { name: 'protection', description: 'Shielding services from abuse and overload.' },
+  'pub-sub': { name: 'pub/sub', description: 'Publishers and subscribers decoupled by topics.' },
+  push: { name: 'push', description: 'Server-initiated delivery to clients.' },
+  python: { name: 'Python', description: 'The programming language.' },
+  queues: { name: 'queues', description: 'Buffers that decouple producers from consumers.', aliases: ['queue'] },
+  ranking: { name: 'ranking', description: 'Ordering candidates by predicted relevance or value.' },
+  'rate-limiting': { name: 'rate-limiting', description: 'Capping how fast a client may call a service.', aliases: ['throttling'] },
+  rbac: { name: 'RBAC', description: 'Role-based access control.' },
+  'real-time': { name: 'real-time', description: 'Updates that reach users within moments of happening.' },
+  recommendations: { name: 'recommendations', description: 'Suggesting what a user might want next.', aliases: ['recommendation'] },
+  redirect: { name: 'redirect', description: 'Sending clients from one URL to another.' },
+  redis: { name: 'Redis', description: 'The in-memory data structure store.' },
+  relevance: { name: 'relevance', description: 'How well a result matches what the user meant.' },
+  reliability: { name: 'reliability', description: 'Doing the right thing consistently, even when parts fail.', aliases: ['resilience'] },
+  replication: { name: 'replication', description: 'Keeping copies of data on several nodes.' },
+  rest: { name: 'REST', description: 'Resource-oriented HTTP APIs.' },
+  resumable: { name: 'resumable', description: 'Transfers that continue where they stopped.' },
+  retries: { name: 'retries', description: 'Trying a failed operation again, safely.', aliases: ['retry'] },
+  retrieval: { name: 'retrieval', description: 'Finding relevant documents to feed a model or a user.' },
+  reviews: { name: 'reviews', description: 'User ratings and written feedback.' },
+  rollout: { name: 'rollout', description: 'Releasing a change to a growing share of users.' },
+  routing: { name: 'routing', description: 'Deciding where a request or message should go.' },
+  s3: { name: 'S3', description: "Amazon's object store and its API." },
+  saas: { name: 'SaaS', description: 'Software sold as a hosted service.' },
+  scalability: { name: 'scalability', description: 'Handling more load by adding resources.', aliases: ['scaling'] },
+  search: { name: 'search', description: 'Finding content by text, filters or similarity.' },
+  security: { name: 'security', description: 'Protecting systems and data from attackers.' },
+  sfu: { name: 'SFU', description: 'Selective forwarding units that relay media streams.' },
+  sharding: { name: 'sharding', description: 'Splitting a dataset across independent databases.' },
+  sharing: { name: 'sharing', description: 'Granting other people access to your content.' },
+  shortener: { name: 'shortener', description: 'Mapping short codes to long URLs.' },
+  'signal-protocol': { name: 'Signal Protocol', description: 'The double-ratchet protocol behind most E2EE messengers.' },
+  social: { name: 'social', description: 'Products built around following and interacting with people.' },
+  'social-login': { name: 'social-login', description: 'Signing in with an existing Google, Apple or GitHub account.' },
+  'spam-filtering': { name: 'spam-filtering', description: 'Classifying and blocking unwanted content.' },
+  sso: { name: 'SSO', description: 'Single sign-on across applications.' },
+  status: { name: 'status', description: "A user's availability as shown to others." },
+  storage: { name: 'storage', description: 'Where bytes live and what keeping them costs.' },
+  streaming: { name: 'streaming', description: 'Delivering media or data continuously as it is produced.' },
+  stripe: { name: 'Stripe', description: 'The payments platform and its API.' },
+  sync: { name: 'sync', description: 'Keeping copies on several devices up to date.' },
+  timeline: { name: 'timeline', description: 'Chronological views of posts or events.' },
+  tls: { name: 'TLS', description: 'Encrypting connections and proving server identity.' },
+  tokens: { name: 'tokens', description: 'Credentials presented instead of passwords.' },
+  tracing: { name: 'tracing', description: 'Following one request across services.' },
+  transactions: { name: 'transactions', description: 'Grouping writes so they succeed or fail together.' },
+  transcoding: { name: 'transcoding', description: 'Converting media into the formats and bitrates clients need.' },
+  transformer: { name: 'transformer', description: 'The attention-based model architecture behind LLMs.' },
+  transport: { name: 'transport', description: 'Moving people or goods.' },
+  trending: { name: 'trending', description: 'Detecting what is suddenly popular.' },
+  typesense: { name: 'Typesense', description: 'An open-source search engine.' },
+  upload: { name: 'upload', description: 'Getting files from clients into storage.' },
+  url: { name: 'URL', description: 'Addresses for resources on the web.' },
+  'vector-database': { name: 'vector database', description: 'Stores that index embeddings for nearest-neighbour search.', aliases: ['vectors'] },
+  versioning: { name: 'versioning', description: 'Keeping and addressing older revisions of data or APIs.' },
+  video: { name: 'video', description: 'Capturing, processing and delivering video.' },
+  voice: { name: 'voice', description: 'Real-time audio between users.' },
+  webhooks: { name: 'webhooks', description: 'HTTP callbacks that notify other systems of events.' },
+  webrtc: { name: 'WebRTC', description: 'Browser APIs for peer-to-peer audio, video and data.' },
+  websocket: { name: 'WebSocket', description: 'Persistent, bidirectional connections over HTTP.' },
+  xmpp: { name: 'XMPP', description: 'The open messaging and presence protocol.' },
+};
+
+/** Lowercase, with runs of anything else collapsed to a dash: "Pub/Sub" → "pub-sub". */
+export function slugifyTag(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+let lookup: Map<string, string> | undefined;
+
+/** Slug of the registered tag `raw` refers to, or undefined if it is unknown. */
+export function resolveTag(raw: string): string | undefined {
+  lookup ??= new Map(
+    Object.entries(tagRegistry).flatMap(([slug, tag]) =>
+      [slug, tag.name, ...(tag.aliases ?? [])].map((spelling) => [slugifyTag(spelling), slug] as [string, string]),
+    ),
+  );
+  return lookup.get(slugifyTag(raw));
+}
+
+/** Canonical names for a frontmatter list, deduplicated. Unknown tags pass through for the content check to report. */
+export function canonicalTags(raw: string[]): string[] {
+  return [...new Set(raw.map((tag) => {
+    const slug = resolveTag(tag);
+    return slug ? tagRegistry[slug].name : tag;
+  }))];
+}
+
+/** URL segment for a tag name; unknown tags fall back to their slugified text. */
+export function tagSlug(name: string): string {
+  return resolveTag(name) ?? slugifyTag(name);
+}
+
+export function tagHref(name: string): string {
+  return `/tags/${tagSlug(name)}`;
+}
+
+/** Slugs of every tag the given entries use, in first-seen order: one /tags page each. */
+export function usedTagSlugs(entries: { data: { tags: string[] } }[]): string[] {
+  return [...new Set(entries.flatMap((entry) => entry.data.tags.map(tagSlug)))];
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import {
+  arrivalTimes,
+  createLimiter,
+  defaultLimiterConfig,
+  limiterLabels,
+  patternLabels,
+  simulate,
+  type BreakerState,
+  type LimiterConfig,
+  type LimiterKind,
+  type Outcome,
+  type QueuePolicy,
+  type SimulationConfig,
+  type TrafficPattern,
+} from '@/lib/traffic-sim';
+
+const kinds = Object.keys(limiterLabels) as LimiterKind[];
+const patterns = Object.keys(patternLabels) as TrafficPattern[];
+const policies: QueuePolicy[] = ['drop', 'block'];
+
+function config(kind: LimiterKind, pattern: TrafficPattern, seed: number, limiter: Partial<LimiterConfig> = {}): SimulationConfig {
+  return {
+    traffic: { pattern, rate: 12, duration: 60, seed },
+    limiter: { ...defaultLimiterConfig, kind, ...limiter },
+  };
+}
+
+describe('arrivals', () => {
+  it('are the same for the same seed and differ between seeds', () => {
+    const traffic = { pattern: 'bursty' as const, rate: 8, duration: 60, seed: 7 };
+    expect(arrivalTimes(traffic)).toEqual(arrivalTimes({ ...traffic }));
+    expect(arrivalTimes(traffic)).not.toEqual(arrivalTimes({ ...traffic, seed: 8 }));
+  });
+
+  it('are sorted and fall inside the simulated time', () => {
+    for (const pattern of patterns) {
+      const times = arrivalTimes({ pattern, rate: 8, duration: 30, seed: 1 });
+      expect(times.length).toBeGreaterThan(0);
+      expect(times).toEqual([...times].sort((a, b) => a - b));
+      expect(times.every((t) => t >= 0 && t < 30)).toBe(true);
+    }
+  });
+});
+
+describe('simulate', () => {
+  it('gives the same result for the same seed', () => {
+    for (const kind of kinds) {
+      expect(simulate(config(kind, 'spike', 3))).toEqual(simulate(config(kind, 'spike', 3)));
+    }
+  });
+
+  it('accounts for every offered request', () => {
+    for (const kind of kinds) {
+      for (const pattern of patterns) {
+        for (const policy of policies) {
+          for (const seed of [1, 2, 3]) {
+            const { series, totals } = simulate(config(kind, pattern, seed, { policy, limit: 6, burst: 10 }));
+            expect(totals.accepted + totals.rejected + totals.failed + totals.pending).toBe(totals.offered);
+            expect(series.reduce((sum, point) => sum + point.offered, 0)).toBe(totals.offered);
+          }
+        }
+      }
+    }
+  });
+
+  it('rejects a non-positive limit', () => {
+    expect(() => simulate(config('token-bucket', 'steady', 1, { limit: 0 }))).toThrow(RangeError);
+  });
+});
+
+describe('bounded queue', () => {
+  it('never holds more than the queue length', () => {
+    const { totals } = simulate(config('bounded-queue', 'spike', 1, { limit: 5, burst: 15 }));
+    expect(totals.peakQueue).toBeLessThanOrEqual(15);
+    expect(totals.rejected).toBeGreaterThan(0);
+  });
+
+  it('keeps draining with the block policy when the queue length is zero', () => {
+    const { totals } = simulate(config('bounded-queue', 'steady', 1, { policy: 'block', burst: 0 }));
+    expect(totals.accepted).toBeGreaterThan(0);
+    expect(totals.rejected).toBe(0);
+    expect(totals.accepted + totals.pending).toBe(totals.offered);
+  });
+});
+
+describe('circuit breaker', () => {
+  /** One request every quarter second, which float arithmetic keeps exact. */
+  function drive(until: number) {
+    const limiter = createLimiter(
+      { ...defaultLimiterConfig, kind: 'circuit-breaker', threshold: 3, cooldown: 2 },
+      { failureRate: 0, outage: [10, 20], latency: 0.5 },
+      1,
+    );
+    const outcomes: { time: number; outcome: Outcome }[] = [];
+    const states: BreakerState[] = [];
+    const record = (time: number, outcome: Outcome) => outcomes.push({ time, outcome });
+    for (let time = 0; time < until; time += 0.25) {
+      limiter.advance(time, record);
+      limiter.offer(time, record);
+      const state = limiter.breaker!();
+      if (states.at(-1) !== state) states.push(state);
+    }
+    return { outcomes, states };
+  }
+
+  it('opens after the threshold, probes once per cooldown and closes when a probe succeeds', () => {
+    expect(drive(25).states).toEqual([
+      'closed',
+      // Opens at 10.5 after three failures; probes at 12.5, 15 and 17.5 fail and reopen it.
+      'open',
+      'half-open',
+      'open',
+      'half-open',
+      'open',
+      'half-open',
+      'open',
+      // The probe sent at 20 returns at 20.5 and succeeds.
+      'half-open',
+      'closed',
+    ]);
+  });
+
+  it('lets a single call through while half-open and rejects the rest', () => {
+    const { outcomes } = drive(25);
+    const during = (from: number, to: number) => outcomes.filter(({ time }) => time >= from && time < to);
+    expect(during(10, 10.75).map(({ outcome }) => outcome)).toEqual(['failed', 'failed', 'failed']);
+    // Three failed probes, each answered half a second after it was sent.
+    expect(during(10.75, 20).filter(({ outcome }) => outcome !== 'rejected')).toEqual([
+      { time: 13, outcome: 'failed' },
+      { time: 15.5, outcome: 'failed' },
+      { time: 18, outcome: 'failed' },
+    ]);
+    // The probe sent at 20 is recorded when it returns; the request arriving behind it is turned away.
+    expect(during(20, 20.5)).toEqual([{ time: 20.25, outcome: 'rejected' }]);
+    expect(during(20.5, 25).every(({ outcome }) => outcome === 'accepted')).toBe(true);
+  });
+});
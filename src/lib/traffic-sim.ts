@@ -0,0 +1,427 @@
+/**
+ * Discrete-event traffic simulation behind `<TrafficSim>`. Requests arrive
+ * from a seeded Poisson process shaped by a traffic pattern, pass through one
+ * admission policy (rate limiter, queue or circuit breaker) and are bucketed
+ * into a per-interval series for charting. No DOM, no clock: the same config
+ * always produces the same result.
+ */
+
+export type TrafficPattern = 'steady' | 'bursty' | 'ramp' | 'spike';
+
+export type LimiterKind =
+  | 'token-bucket'
+  | 'leaky-bucket'
+  | 'fixed-window'
+  | 'sliding-window'
+  | 'bounded-queue'
+  | 'circuit-breaker';
+
+/** What a bounded queue does with arrivals once it is full. */
+export type QueuePolicy = 'drop' | 'block';
+
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+export type Outcome = 'accepted' | 'rejected' | 'failed';
+
+export const patternLabels: Record<TrafficPattern, string> = {
+  steady: 'Steady',
+  bursty: 'Bursty',
+  ramp: 'Ramp',
+  spike: 'Spike',
+};
+
+export const limiterLabels: Record<LimiterKind, string> = {
+  'token-bucket': 'Token bucket',
+  'leaky-bucket': 'Leaky bucket',
+  'fixed-window': 'Fixed window',
+  'sliding-window': 'Sliding window',
+  'bounded-queue': 'Bounded queue',
+  'circuit-breaker': 'Circuit breaker',
+};
+
+export interface TrafficConfig {
+  pattern: TrafficPattern;
+  /** Baseline arrival rate in requests per second. */
+  rate: number;
+  /** Simulated seconds. */
+  duration: number;
+  seed: number;
+}
+
+export interface LimiterConfig {
+  kind: LimiterKind;
+  /** Requests per second let through: refill, leak, window or service rate. */
+  limit: number;
+  /** Token bucket capacity, or queue length for the queueing policies. */
+  burst: number;
+  /** Window length in seconds for the window limiters. */
+  window: number;
+  policy: QueuePolicy;
+  /** Consecutive failures that open the breaker. */
+  threshold: number;
+  /** Seconds the breaker stays open before letting a probe through. */
+  cooldown: number;
+}
+
+/** The downstream service a circuit breaker protects. */
+export interface DependencyConfig {
+  /** Chance that any single call fails while the dependency is healthy. */
+  failureRate: number;
+  /** Seconds [from, to) during which every call fails. */
+  outage?: [number, number];
+  /** Seconds before a call's result is known; a half-open breaker waits this long on its probe. */
+  latency?: number;
+}
+
+export interface SimulationConfig {
+  traffic: TrafficConfig;
+  limiter: LimiterConfig;
+  dependency?: DependencyConfig;
+  /** Width of each series bucket in seconds. */
+  interval?: number;
+}
+
+export interface SimPoint {
+  /** Start of the bucket in seconds. */
+  time: number;
+  offered: number;
+  /** Requests that reached the backend (and succeeded) in this bucket. */
+  accepted: number;
+  rejected: number;
+  /** Calls that reached the dependency and failed. */
+  failed: number;
+  /** Requests waiting in the queue at the end of the bucket. */
+  queued: number;
+  /** Producers held back by a full queue under the block policy. */
+  blocked: number;
+  breaker?: BreakerState;
+}
+
+export interface SimulationResult {
+  series: SimPoint[];
+  totals: {
+    offered: number;
+    accepted: number;
+    rejected: number;
+    failed: number;
+    /** Still queued, blocked or in flight when the simulation ended. */
+    pending: number;
+    peakQueue: number;
+  };
+}
+
+export const defaultLimiterConfig: LimiterConfig = {
+  kind: 'token-bucket',
+  limit: 10,
+  burst: 20,
+  window: 5,
+  policy: 'drop',
+  threshold: 5,
+  cooldown: 5,
+};
+
+export const defaultDependency: DependencyConfig = { failureRate: 0.02, outage: [20, 35], latency: 0.5 };
+
+// ── Randomness and traffic ──────────────────────────────────────────────────
+
+/** Mulberry32: a tiny seedable PRNG returning floats in [0, 1). */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Arrival rate at time t. Patterns are multiples of the baseline rate. */
+export function rateAt(traffic: TrafficConfig, t: number): number {
+  switch (traffic.pattern) {
+    case 'steady':
+      return traffic.rate;
+    case 'bursty':
+      // Two seconds at four times the baseline out of every ten.
+      return t % 10 < 2 ? traffic.rate * 4 : traffic.rate;
+    case 'ramp':
+      return (traffic.rate * 2 * t) / traffic.duration;
+    case 'spike':
+      return t >= traffic.duration * 0.4 && t < traffic.duration * 0.5 ? traffic.rate * 5 : traffic.rate;
+  }
+}
+
+function peakRate(traffic: TrafficConfig): number {
+  return traffic.rate * { steady: 1, bursty: 4, ramp: 2, spike: 5 }[traffic.pattern];
+}
+
+/**
+ * Arrival timestamps for a non-homogeneous Poisson process, drawn by
+ * thinning: candidates arrive at the peak rate and each is kept with
+ * probability rate(t) / peak.
+ */
+export function arrivalTimes(traffic: TrafficConfig): number[] {
+  const random = createRandom(traffic.seed);
+  const peak = peakRate(traffic);
+  const times: number[] = [];
+  if (peak <= 0) return times;
+  let t = 0;
+  for (;;) {
+    t += -Math.log(1 - random()) / peak;
+    if (t >= traffic.duration) return times;
+    if (random() * peak < rateAt(traffic, t)) times.push(t);
+  }
+}
+
+// ── Admission policies ──────────────────────────────────────────────────────
+
+type Recorder = (time: number, outcome: Outcome) => void;
+
+export interface Limiter {
+  /** Processes everything scheduled up to `time`, such as queue departures. */
+  advance(time: number, record: Recorder): void;
+  /** One request arrives at `time`. */
+  offer(time: number, record: Recorder): void;
+  queued(): number;
+  blocked(): number;
+  /** Calls sent whose result is not known yet. */
+  inFlight?(): number;
+  breaker?(): BreakerState;
+}
+
+function tokenBucket({ limit, burst }: LimiterConfig): Limiter {
+  let tokens = burst;
+  let lastRefill = 0;
+  return {
+    advance() {},
+    offer(time, record) {
+      tokens = Math.min(burst, tokens + (time - lastRefill) * limit);
+      lastRefill = time;
+      if (tokens >= 1) {
+        tokens -= 1;
+        record(time, 'accepted');
+      } else {
+        record(time, 'rejected');
+      }
+    },
+    queued: () => 0,
+    blocked: () => 0,
+  };
+}
+
+function fixedWindow({ limit, window }: LimiterConfig): Limiter {
+  const max = Math.max(1, Math.round(limit * window));
+  let windowStart = 0;
+  let count = 0;
+  return {
+    advance() {},
+    offer(time, record) {
+      const start = Math.floor(time / window) * window;
+      if (start !== windowStart) {
+        windowStart = start;
+        count = 0;
+      }
+      if (count < max) {
+        count++;
+        record(time, 'accepted');
+      } else {
+        record(time, 'rejected');
+      }
+    },
+    queued: () => 0,
+    blocked: () => 0,
+  };
+}
+
+/** Sliding log: keeps every accepted timestamp inside the trailing window. */
+function slidingWindow({ limit, window }: LimiterConfig): Limiter {
+  const max = Math.max(1, Math.round(limit * window));
+  const log: number[] = [];
+  return {
+    advance() {},
+    offer(time, record) {
+      while (log.length > 0 && log[0] <= time - window) log.shift();
+      if (log.length < max) {
+        log.push(time);
+        record(time, 'accepted');
+      } else {
+        record(time, 'rejected');
+      }
+    },
+    queued: () => 0,
+    blocked: () => 0,
+  };
+}
+
+/**
+ * A FIFO of at most `burst` requests drained at `limit` per second. With the
+ * drop policy this is the leaky bucket; with block, producers that find it
+ * full wait in line and enter as soon as a slot frees up.
+ */
+function boundedQueue({ limit, burst }: LimiterConfig, policy: QueuePolicy): Limiter {
+  const gap = 1 / limit;
+  // A zero-length queue never drains, so blocked producers would wait forever.
+  const capacity = Math.max(1, Math.floor(burst));
+  const queue: number[] = [];
+  const waiting: number[] = [];
+  let lastDeparture = -Infinity;
+  return {
+    advance(time, record) {
+      while (queue.length > 0) {
+        const departure = Math.max(lastDeparture + gap, queue[0]);
+        if (departure > time) return;
+        queue.shift();
+        lastDeparture = departure;
+        record(departure, 'accepted');
+        if (waiting.length > 0) {
+          waiting.shift();
+          queue.push(departure);
+        }
+      }
+    },
+    offer(time, record) {
+      if (queue.length < capacity) queue.push(time);
+      else if (policy === 'block') waiting.push(time);
+      else record(time, 'rejected');
+    },
+    queued: () => queue.length,
+    blocked: () => waiting.length,
+  };
+}
+
+/**
+ * Closed, the breaker passes every call and counts consecutive failures.
+ * Open, it rejects everything until the cooldown has passed. Half-open, it
+ * sends a single probe and rejects everything else until the probe's result
+ * is known: success closes the breaker, failure reopens it and restarts the
+ * cooldown.
+ */
+function circuitBreaker(
+  { threshold, cooldown }: LimiterConfig,
+  dependency: DependencyConfig,
+  seed: number,
+): Limiter {
+  // A separate stream so switching policies never changes the arrivals.
+  const random = createRandom(seed ^ 0x9e3779b9);
+  const latency = dependency.latency ?? 0;
+  let state: BreakerState = 'closed';
+  let failures = 0;
+  let openedAt = 0;
+  let probe: { returnsAt: number; fails: boolean } | undefined;
+  const callFails = (time: number) => {
+    const [from, to] = dependency.outage ?? [0, 0];
+    return (time >= from && time < to) || random() < dependency.failureRate;
+  };
+  const open = (time: number) => {
+    state = 'open';
+    openedAt = time;
+  };
+  return {
+    advance(time, record) {
+      if (probe && probe.returnsAt <= time) {
+        record(probe.returnsAt, probe.fails ? 'failed' : 'accepted');
+        if (probe.fails) {
+          open(probe.returnsAt);
+        } else {
+          state = 'closed';
+          failures = 0;
+        }
+        probe = undefined;
+      }
+      if (state === 'open' && time - openedAt >= cooldown) state = 'half-open';
+    },
+    offer(time, record) {
+      if (state === 'open' || probe) {
+        record(time, 'rejected');
+        return;
+      }
+      const fails = callFails(time);
+      if (state === 'half-open') {
+        probe = { returnsAt: time + latency, fails };
+        return;
+      }
+      if (!fails) {
+        failures = 0;
+        record(time, 'accepted');
+        return;
+      }
+      record(time, 'failed');
+      if (++failures >= threshold) open(time);
+    },
+    queued: () => 0,
+    blocked: () => 0,
+    inFlight: () => (probe ? 1 : 0),
+    breaker: () => state,
+  };
+}
+
+export function createLimiter(config: LimiterConfig, dependency: DependencyConfig, seed: number): Limiter {
+  if (!(config.limit > 0)) throw new RangeError(`limit must be positive, got ${config.limit}`);
+  switch (config.kind) {
+    case 'token-bucket':
+      return tokenBucket(config);
+    case 'leaky-bucket':
+      return boundedQueue(config, 'drop');
+    case 'fixed-window':
+      return fixedWindow(config);
+    case 'sliding-window':
+      return slidingWindow(config);
+    case 'bounded-queue':
+      return boundedQueue(config, config.policy);
+    case 'circuit-breaker':
+      return circuitBreaker(config, dependency, seed);
+  }
+}
+
+// ── Simulation ──────────────────────────────────────────────────────────────
+
+export function simulate({
+  traffic,
+  limiter: limiterConfig,
+  dependency = defaultDependency,
+  interval = 1,
+}: SimulationConfig): SimulationResult {
+  const limiter = createLimiter(limiterConfig, dependency, traffic.seed);
+  const arrivals = arrivalTimes(traffic);
+  const buckets = Math.ceil(traffic.duration / interval);
+  const series: SimPoint[] = Array.from({ length: buckets }, (_, i) => ({
+    time: i * interval,
+    offered: 0,
+    accepted: 0,
+    rejected: 0,
+    failed: 0,
+    queued: 0,
+    blocked: 0,
+  }));
+  const record: Recorder = (time, outcome) => {
+    series[Math.min(buckets - 1, Math.floor(time / interval))][outcome]++;
+  };
+
+  let next = 0;
+  for (const point of series) {
+    const end = point.time + interval;
+    for (; next < arrivals.length && arrivals[next] < end; next++) {
+      limiter.advance(arrivals[next], record);
+      limiter.offer(arrivals[next], record);
+      point.offered++;
+    }
+    limiter.advance(Math.min(end, traffic.duration), record);
+    point.queued = limiter.queued();
+    point.blocked = limiter.blocked();
+    if (limiter.breaker) point.breaker = limiter.breaker();
+  }
+
+  const sum = (key: 'offered' | 'accepted' | 'rejected' | 'failed') =>
+    series.reduce((total, point) => total + point[key], 0);
+  return {
+    series,
+    totals: {
+      offered: sum('offered'),
+      accepted: sum('accepted'),
+      rejected: sum('rejected'),
+      failed: sum('failed'),
+      pending: limiter.queued() + limiter.blocked() + (limiter.inFlight?.() ?? 0),
+      peakQueue: Math.max(0, ...series.map((point) => point.queued)),
+    },
+  };
+}
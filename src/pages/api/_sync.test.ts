@@ -0,0 +1,150 @@
+import type { APIContext } from 'astro';
+import type { D1Database } from 'cloudflare:workers';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ProgressState, ReadingItem } from '@/lib/progress';
+
+/**
+ * Just enough of D1 for the route's three statements, with the same
+ * compare-and-swap semantics. `onWrite` runs before each write is applied,
+ * so a test can slip in another device's write between read and write.
+ */
+class FakeD1 {
+  rows = new Map<string, { state: string; version: number }>();
+  writes = 0;
+  onWrite?: () => void;
+
+  prepare(query: string) {
+    let params: unknown[] = [];
+    const statement = {
+      bind: (...values: unknown[]) => {
+        params = values;
+        return statement;
+      },
+      first: async () => this.rows.get(params[0] as string) ?? null,
+      run: async () => {
+        if (!query.startsWith('INSERT')) return { meta: { changes: 0 } };
+        this.writes++;
+        this.onWrite?.();
+        const [key, state, version] = params as [string, string, number];
+        const row = this.rows.get(key);
+        if (row && row.version !== version) return { meta: { changes: 0 } };
+        this.rows.set(key, { state, version: (row?.version ?? 0) + 1 });
+        return { meta: { changes: 1 } };
+      },
+    };
+    return statement;
+  }
+}
+
+const bindings: { PROGRESS?: D1Database } = {};
+vi.mock('cloudflare:workers', () => ({ env: bindings }));
+
+const { GET, PUT } = await import('@/pages/api/sync');
+
+const CODE = 'abcdefghijklmnopqrstuvwxyz012345';
+
+function item(id: string, timestamp: number): ReadingItem {
+  return { id, title: id, tagline: `About ${id}`, href: `/${id}`, type: 'lesson', timestamp };
+}
+
+function call(route: typeof GET, init: RequestInit & { code?: string | null } = {}) {
+  const { code = CODE, ...rest } = init;
+  const headers = new Headers(rest.headers);
+  if (code) headers.set('Authorization', `Bearer ${code}`);
+  return route({ request: new Request('https://sysdesign.wiki/api/sync', { ...rest, headers }) } as APIContext);
+}
+
+const put = (state: unknown, init: RequestInit & { code?: string | null } = {}) =>
+  call(PUT, { method: 'PUT', body: JSON.stringify(state), ...init });
+
+let db: FakeD1;
+
+beforeEach(() => {
+  db = new FakeD1();
+  bindings.PROGRESS = db as unknown as D1Database;
+});
+
+describe('/api/sync', () => {
+  it('answers 501 without the binding', async () => {
+    delete bindings.PROGRESS;
+    expect((await call(GET)).status).toBe(501);
+  });
+
+  it('requires a long enough sync code', async () => {
+    expect((await call(GET, { code: null })).status).toBe(401);
+    expect((await call(GET, { code: 'short' })).status).toBe(401);
+    expect((await put({ read: [], list: [] }, { code: 'short' })).status).toBe(401);
+  });
+
+  it('stores records under a hash of the code, not the code itself', async () => {
+    await put({ read: [item('lessons/caching', 1)], list: [] });
+    const [key] = db.rows.keys();
+    expect(key).toMatch(/^progress:[0-9a-f]{64}$/);
+    expect(key).not.toContain(CODE);
+  });
+
+  it('treats codes case-insensitively', async () => {
+    await put({ read: [item('lessons/caching', 1)], list: [] });
+    const state: ProgressState = await (await call(GET, { code: CODE.toUpperCase() })).json();
+    expect(state.read.map((entry) => entry.id)).toEqual(['lessons/caching']);
+  });
+
+  it('rejects a declared Content-Length over the limit without reading the body', async () => {
+    const response = await call(PUT, { method: 'PUT', body: '{}', headers: { 'Content-Length': String(600 * 1024) } });
+    expect(response.status).toBe(413);
+    expect(db.writes).toBe(0);
+  });
+
+  it('measures the body in bytes, not characters', async () => {
+    // 200k three-byte characters: under the limit in UTF-16 code units, over it in UTF-8.
+    const state = { read: [], list: [{ ...item('lessons/caching', 1), tagline: '€'.repeat(200_000) }] };
+    expect((await put(state)).status).toBe(413);
+  });
+
+  it('rejects malformed records', async () => {
+    expect((await call(PUT, { method: 'PUT', body: 'not json' })).status).toBe(400);
+    expect((await put({ read: 'nope', list: [] })).status).toBe(400);
+  });
+
+  it('merges into the stored record, removals included', async () => {
+    await put({ read: [], list: [item('lessons/caching', 1), item('lessons/sharding', 2)] });
+    const merged: ProgressState = await (
+      await put({ read: [item('lessons/sharding', 3)], list: [], removed: [{ id: 'lessons/caching', timestamp: 4 }] })
+    ).json();
+    expect(merged.read.map((entry) => entry.id)).toEqual(['lessons/sharding']);
+    expect(merged.list).toEqual([]);
+    expect(merged.removed).toEqual([{ id: 'lessons/caching', timestamp: 4 }]);
+
+    // A device that still has the entry saved does not bring it back.
+    const stale: ProgressState = await (await put({ read: [], list: [item('lessons/caching', 1)] })).json();
+    expect(stale.list).toEqual([]);
+    expect(stale.removed.map((entry) => entry.id)).toEqual(['lessons/caching']);
+  });
+
+  it('re-reads and merges again when another write lands first', async () => {
+    await put({ read: [], list: [item('lessons/caching', 1)] });
+    const [key] = db.rows.keys();
+    // Another device's sync lands between this request's read and its write.
+    db.onWrite = () => {
+      db.onWrite = undefined;
+      const row = db.rows.get(key)!;
+      const other: ProgressState = { read: [], list: [...JSON.parse(row.state).list, item('lessons/sharding', 2)], removed: [] };
+      db.rows.set(key, { state: JSON.stringify(other), version: row.version + 1 });
+    };
+
+    const merged: ProgressState = await (await put({ read: [item('lessons/queues', 3)], list: [] })).json();
+    expect(merged.read.map((entry) => entry.id)).toEqual(['lessons/queues']);
+    expect(merged.list.map((entry) => entry.id)).toEqual(['lessons/sharding', 'lessons/caching']);
+    expect(JSON.parse(db.rows.get(key)!.state)).toEqual(merged);
+  });
+
+  it('gives up with 409 when the record keeps changing', async () => {
+    await put({ read: [], list: [] });
+    const [key] = db.rows.keys();
+    db.onWrite = () => {
+      const row = db.rows.get(key)!;
+      db.rows.set(key, { ...row, version: row.version + 1 });
+    };
+    expect((await put({ read: [item('lessons/queues', 3)], list: [] })).status).toBe(409);
+  });
+});
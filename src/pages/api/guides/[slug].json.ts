@@ -0,0 +1,18 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getCollection, type CollectionEntry } from 'astro:content';
+import { exportEntry } from '@/lib/content-export';
+
+export const prerender = true;
+
+export const getStaticPaths: GetStaticPaths = async () => {
+  const entries = await getCollection('guides');
+  return entries.map((entry) => ({
+    params: { slug: entry.id },
+    props: { entry },
+  }));
+};
+
+export const GET: APIRoute = ({ props, site }) => {
+  const { entry } = props as { entry: CollectionEntry<'guides'> };
+  return Response.json(exportEntry(entry, site));
+};
@@ -0,0 +1,19 @@
+import type { APIRoute } from 'astro';
+import { getCollection } from 'astro:content';
+import { exportIndexItem } from '@/lib/content-export';
+
+export const prerender = true;
+
+export const GET: APIRoute = async ({ site }) => {
+  const [systems, guides, lessons] = await Promise.all([
+    getCollection('systems'),
+    getCollection('guides'),
+    getCollection('lessons'),
+  ]);
+
+  return Response.json({
+    systems: systems.map((entry) => exportIndexItem(entry, site)),
+    guides: guides.map((entry) => exportIndexItem(entry, site)),
+    lessons: lessons.map((entry) => exportIndexItem(entry, site)),
+  });
+};
@@ -0,0 +1,11 @@
+import type { APIRoute } from 'astro';
+import { getCollection } from 'astro:content';
+import { buildReviewCards } from '@/lib/review-cards';
+
+export const prerender = true;
+
+// Only lessons are scheduled for review; see src/scripts/review-store.ts.
+export const GET: APIRoute = async () => {
+  const lessons = await getCollection('lessons');
+  return Response.json(lessons.flatMap(buildReviewCards));
+};
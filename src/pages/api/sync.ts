@@ -0,0 +1,107 @@
+import type { APIRoute } from 'astro';
+import { env, type D1Database } from 'cloudflare:workers';
+import { mergeProgress, parseProgressState, type ProgressState } from '@/lib/progress';
+
+export const prerender = false;
+
+const MIN_CODE_LENGTH = 16;
+const MAX_BODY_BYTES = 512 * 1024;
+/** Attempts at a merge before giving up on a record that keeps changing underneath. */
+const MAX_ATTEMPTS = 5;
+
+function error(status: number, message: string) {
+  return Response.json({ error: message }, { status, headers: { 'Cache-Control': 'no-store' } });
+}
+
+/**
+ * The sync code is the only credential, so only its hash is used as the
+ * storage key: reading the table does not reveal anyone's code.
+ */
+async function storageKey(request: Request): Promise<string | null> {
+  const code = request.headers.get('Authorization')?.match(/^Bearer\s+(\S+)$/)?.[1];
+  if (!code || code.length < MIN_CODE_LENGTH) return null;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(code.toLowerCase()));
+  const hex = [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `progress:${hex}`;
+}
+
+// Created on first use, so a fresh database (or the local one in dev) needs no migration step.
+let schemaReady: Promise<unknown> | undefined;
+
+function ensureSchema(db: D1Database): Promise<unknown> {
+  schemaReady ??= db
+    .prepare('CREATE TABLE IF NOT EXISTS progress (key TEXT PRIMARY KEY, state TEXT NOT NULL, version INTEGER NOT NULL)')
+    .run()
+    .catch((e) => {
+      schemaReady = undefined;
+      throw e;
+    });
+  return schemaReady;
+}
+
+interface StoredProgress {
+  state: ProgressState;
+  /** Bumped on every write; 0 when nothing is stored yet. */
+  version: number;
+}
+
+async function loadState(db: D1Database, key: string): Promise<StoredProgress> {
+  await ensureSchema(db);
+  const row = await db.prepare('SELECT state, version FROM progress WHERE key = ?1').bind(key).first<{ state: string; version: number }>();
+  return row
+    ? { state: parseProgressState(JSON.parse(row.state)).state, version: row.version }
+    : { state: { read: [], list: [], removed: [] }, version: 0 };
+}
+
+/**
+ * Writes `state` only if the record is still at `version`, so a merge never
+ * overwrites a write that landed after it read. Returns whether it did.
+ */
+async function saveState(db: D1Database, key: string, state: ProgressState, version: number): Promise<boolean> {
+  const { meta } = await db
+    .prepare(
+      `INSERT INTO progress (key, state, version) VALUES (?1, ?2, 1)
+       ON CONFLICT (key) DO UPDATE SET state = excluded.state, version = progress.version + 1
+       WHERE progress.version = ?3`,
+    )
+    .bind(key, JSON.stringify(state), version)
+    .run();
+  return meta.changes > 0;
+}
+
+export const GET: APIRoute = async ({ request }) => {
+  if (!env.PROGRESS) return error(501, 'Sync is not enabled on this deployment.');
+  const key = await storageKey(request);
+  if (!key) return error(401, 'Missing or invalid sync code.');
+
+  const { state } = await loadState(env.PROGRESS, key);
+  return Response.json(state, { headers: { 'Cache-Control': 'no-store' } });
+};
+
+/** Merges the client's progress into the shared record and returns the result. */
+export const PUT: APIRoute = async ({ request }) => {
+  if (!env.PROGRESS) return error(501, 'Sync is not enabled on this deployment.');
+  const key = await storageKey(request);
+  if (!key) return error(401, 'Missing or invalid sync code.');
+
+  // Refuse oversized bodies before reading them; the header can be absent or wrong, so measure too.
+  if (Number(request.headers.get('Content-Length')) > MAX_BODY_BYTES) return error(413, 'Progress record is too large.');
+  const body = await request.text();
+  if (new TextEncoder().encode(body).byteLength > MAX_BODY_BYTES) return error(413, 'Progress record is too large.');
+
+  let incoming: ProgressState;
+  try {
+    incoming = parseProgressState(JSON.parse(body)).state;
+  } catch (e) {
+    return error(400, e instanceof Error ? e.message : 'Invalid progress record.');
+  }
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const stored = await loadState(env.PROGRESS, key);
+    const merged = mergeProgress(stored.state, incoming);
+    if (await saveState(env.PROGRESS, key, merged, stored.version)) {
+      return Response.json(merged, { headers: { 'Cache-Control': 'no-store' } });
+    }
+  }
+  return error(409, 'Progress changed on another device during sync; try again.');
+};
@@ -0,0 +1,6 @@
+import type { APIRoute } from 'astro';
+import { getFeed, jsonFeed } from '@/lib/feeds';
+
+export const prerender = true;
+
+export const GET: APIRoute = async ({ site }) => jsonFeed(await getFeed({}, site));
@@ -0,0 +1,6 @@
+import type { APIRoute } from 'astro';
+import { atomFeed, getFeed } from '@/lib/feeds';
+
+export const prerender = true;
+
+export const GET: APIRoute = async ({ site }) => atomFeed(await getFeed({}, site));
@@ -0,0 +1,17 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getFeed, getFeedScopes, jsonFeed, type FeedScope } from '@/lib/feeds';
+
+export const prerender = true;
+
+// /feeds/systems.json and /feeds/systems/messaging.json
+export const getStaticPaths: GetStaticPaths = async () => {
+  return (await getFeedScopes()).map((scope) => ({
+    params: { feed: [scope.collection, scope.category].filter(Boolean).join('/') },
+    props: { scope },
+  }));
+};
+
+export const GET: APIRoute = async ({ props, site }) => {
+  const { scope } = props as { scope: FeedScope };
+  return jsonFeed(await getFeed(scope, site));
+};
@@ -0,0 +1,17 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { atomFeed, getFeed, getFeedScopes, type FeedScope } from '@/lib/feeds';
+
+export const prerender = true;
+
+// /feeds/systems.xml and /feeds/systems/messaging.xml
+export const getStaticPaths: GetStaticPaths = async () => {
+  return (await getFeedScopes()).map((scope) => ({
+    params: { feed: [scope.collection, scope.category].filter(Boolean).join('/') },
+    props: { scope },
+  }));
+};
+
+export const GET: APIRoute = async ({ props, site }) => {
+  const { scope } = props as { scope: FeedScope };
+  return atomFeed(await getFeed(scope, site));
+};
@@ -0,0 +1,84 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getCollection } from 'astro:content';
+import { createElement } from 'react';
+import { ImageResponse } from 'takumi-js/response';
+import { SectionOgImage } from '@/components/og/SectionOgImage';
+import { categoryLabels, guideCategoryLabels, lessonCategoryLabels } from '@/lib/categories';
+import { topTags } from '@/lib/facets';
+import { ogSections, type OgSection } from '@/lib/og-images';
+import { ogImageOptions } from '@/lib/og-options';
+import { getLearningPaths } from '@/lib/paths';
+import { usedTagSlugs } from '@/lib/tags';
+
+export const prerender = true;
+
+interface SectionCard {
+  label: string;
+  title: string;
+  description: string;
+  chips: string[];
+  stat: string;
+}
+
+/** Most common values first, so the chips show what the section is mostly about. */
+function byFrequency(values: string[]): string[] {
+  return topTags(values.map((value) => ({ tags: [value] })));
+}
+
+export const getStaticPaths: GetStaticPaths = async () => {
+  const [lessons, guides, systems, paths] = await Promise.all([
+    getCollection('lessons'),
+    getCollection('guides'),
+    getCollection('systems'),
+    getLearningPaths(),
+  ]);
+  const tagged = [...lessons, ...guides, ...systems];
+
+  const cards: Record<OgSection, SectionCard> = {
+    lessons: {
+      label: 'System design concepts',
+      title: 'The building blocks',
+      description: 'Short notes on queues, caches, consistency, observability and the tradeoffs behind them.',
+      chips: byFrequency(lessons.map((entry) => lessonCategoryLabels[entry.data.category])),
+      stat: `${lessons.length} concepts`,
+    },
+    guides: {
+      label: 'Capability guides',
+      title: 'Common product capabilities',
+      description: '0 to 1 designs with tradeoffs, cost drivers, failure modes and scale breakpoints.',
+      chips: byFrequency(guides.map((entry) => guideCategoryLabels[entry.data.category])),
+      stat: `${guides.length} capabilities`,
+    },
+    systems: {
+      label: 'Case studies',
+      title: 'Popular systems as learning models',
+      description: 'Architecture patterns, constraints and inferred design choices from products you know.',
+      chips: byFrequency(systems.map((entry) => categoryLabels[entry.data.category])),
+      stat: `${systems.length} case studies`,
+    },
+    paths: {
+      label: 'Learning paths',
+      title: 'Guided system design study',
+      description: 'Ordered paths through concepts, capabilities and case studies, with progress tracked as you read.',
+      chips: paths.map((path) => path.title),
+      stat: `${paths.length} paths`,
+    },
+    tags: {
+      label: 'Topics',
+      title: 'Browse by topic',
+      description: 'Every tag on the site, with the concepts, capabilities and case studies filed under it.',
+      chips: topTags(tagged.map((entry) => entry.data)),
+      stat: `${usedTagSlugs(tagged).length} tags`,
+    },
+  };
+
+  return ogSections.map((section) => ({
+    params: { section },
+    props: { card: cards[section] },
+  }));
+};
+
+export const GET: APIRoute = ({ props }) => {
+  const { card } = props as { card: SectionCard };
+  return new ImageResponse(createElement(SectionOgImage, card), ogImageOptions);
+};
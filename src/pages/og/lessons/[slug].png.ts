@@ -0,0 +1,21 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getCollection, type CollectionEntry } from 'astro:content';
+import { createElement } from 'react';
+import { ImageResponse } from 'takumi-js/response';
+import { LessonOgImage } from '@/components/og/LessonOgImage';
+import { ogImageOptions } from '@/lib/og-options';
+
+export const prerender = true;
+
+export const getStaticPaths: GetStaticPaths = async () => {
+  const lessons = await getCollection('lessons');
+  return lessons.map((lesson) => ({
+    params: { slug: lesson.id },
+    props: { lesson },
+  }));
+};
+
+export const GET: APIRoute = ({ props }) => {
+  const { lesson } = props as { lesson: CollectionEntry<'lessons'> };
+  return new ImageResponse(createElement(LessonOgImage, { lesson }), ogImageOptions);
+};
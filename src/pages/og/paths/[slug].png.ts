@@ -0,0 +1,30 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { createElement } from 'react';
+import { ImageResponse } from 'takumi-js/response';
+import { SectionOgImage } from '@/components/og/SectionOgImage';
+import { ogImageOptions } from '@/lib/og-options';
+import { getLearningPaths, type LearningPath } from '@/lib/paths';
+
+export const prerender = true;
+
+export const getStaticPaths: GetStaticPaths = async () => {
+  const paths = await getLearningPaths();
+  return paths.map((path) => ({
+    params: { slug: path.id },
+    props: { path },
+  }));
+};
+
+export const GET: APIRoute = ({ props }) => {
+  const { path } = props as { path: LearningPath };
+  return new ImageResponse(
+    createElement(SectionOgImage, {
+      label: 'Learning path',
+      title: path.title,
+      description: path.tagline,
+      chips: path.steps.map((step) => step.title),
+      stat: `${path.steps.length} steps · ${path.timeMinutes} min`,
+    }),
+    ogImageOptions,
+  );
+};
@@ -0,0 +1,43 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getCollection } from 'astro:content';
+import { createElement } from 'react';
+import { ImageResponse } from 'takumi-js/response';
+import { SectionOgImage } from '@/components/og/SectionOgImage';
+import { ogImageOptions } from '@/lib/og-options';
+import { tagRegistry, tagSlug, usedTagSlugs } from '@/lib/tags';
+
+export const prerender = true;
+
+export const getStaticPaths: GetStaticPaths = async () => {
+  const [lessons, guides, systems] = await Promise.all([
+    getCollection('lessons'),
+    getCollection('guides'),
+    getCollection('systems'),
+  ]);
+  const entries = [...lessons, ...guides, ...systems];
+
+  return usedTagSlugs(entries).map((slug) => {
+    const tagged = entries.filter((entry) => entry.data.tags.some((tag) => tagSlug(tag) === slug));
+    return {
+      params: { tag: slug },
+      props: {
+        titles: tagged.map((entry) => ('title' in entry.data ? entry.data.title : entry.data.name)),
+      },
+    };
+  });
+};
+
+export const GET: APIRoute = ({ params, props }) => {
+  const { titles } = props as { titles: string[] };
+  const tag = tagRegistry[params.tag!];
+  return new ImageResponse(
+    createElement(SectionOgImage, {
+      label: 'Topic',
+      title: tag?.name ?? params.tag!,
+      description: tag?.description ?? 'Concepts, capabilities and case studies filed under this tag.',
+      chips: titles,
+      stat: `${titles.length} ${titles.length === 1 ? 'page' : 'pages'}`,
+    }),
+    ogImageOptions,
+  );
+};
@@ -0,0 +1,95 @@
+/**
+ * Offline Pages — keeps the service worker's saved-page cache in step with
+ * the reading list.
+ *
+ * Every page on the list is cached in full (the HTML carries its diagrams as
+ * inline SVG, and the worker stores whatever else it loads next to it); pages
+ * and their files leave the cache once they leave the list, whether through markRead, Remove, an import
+ * or a sync. The worker itself lives in public/sw.js.
+ *
+ * Status changes are announced as `offlineStateChange` window events, like
+ * `readingStateChange` in reading-store.ts.
+ */
+
+import { getList } from '@/scripts/reading-store';
+
+// Also named in public/sw.js.
+const SAVED_CACHE = 'sysdesign-saved-pages';
+
+export type OfflineStatus = 'saved' | 'saving' | 'failed' | 'unsupported';
+
+const pending = new Set<string>();
+const failed = new Set<string>();
+
+function pageKey(href: string): string {
+  return new URL(href, location.origin).pathname.replace(/\/$/, '') || '/';
+}
+
+function emit(detail: Record<string, unknown>): void {
+  window.dispatchEvent(new CustomEvent('offlineStateChange', { detail }));
+}
+
+export function offlineSupported(): boolean {
+  return 'serviceWorker' in navigator && 'caches' in window;
+}
+
+async function post(message: { type: 'save-page' | 'evict-page'; href: string }): Promise<void> {
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage(message);
+}
+
+/** Saved page paths, without trailing slashes. The cache also holds the files those pages load. */
+async function getOfflineHrefs(): Promise<Set<string>> {
+  if (!offlineSupported()) return new Set();
+  const cache = await caches.open(SAVED_CACHE);
+  const hrefs = new Set<string>();
+  for (const request of await cache.keys()) {
+    const response = await cache.match(request);
+    if (response?.headers.get('Content-Type')?.startsWith('text/html')) hrefs.add(pageKey(request.url));
+  }
+  return hrefs;
+}
+
+export async function getOfflineStatus(href: string): Promise<OfflineStatus | undefined> {
+  if (!offlineSupported()) return 'unsupported';
+  const key = pageKey(href);
+  if (pending.has(key)) return 'saving';
+  if ((await getOfflineHrefs()).has(key)) return 'saved';
+  return failed.has(key) ? 'failed' : undefined;
+}
+
+/** Caches listed pages that are missing and evicts cached pages no longer listed. */
+export async function syncOfflinePages(): Promise<void> {
+  if (!offlineSupported() || !import.meta.env.PROD) return;
+  const listed = new Set(getList().map((item) => pageKey(item.href)));
+  const cached = await getOfflineHrefs();
+
+  for (const href of listed) {
+    if (cached.has(href) || pending.has(href)) continue;
+    pending.add(href);
+    failed.delete(href);
+    emit({ href, status: 'saving' });
+    await post({ type: 'save-page', href });
+  }
+  for (const href of cached) {
+    if (!listed.has(href)) await post({ type: 'evict-page', href });
+  }
+}
+
+/** Registers public/sw.js and keeps saved pages cached from then on. Production only. */
+export function registerOfflineSupport(): void {
+  if (!offlineSupported() || !import.meta.env.PROD) return;
+
+  navigator.serviceWorker.addEventListener('message', (event: MessageEvent) => {
+    const { type, href, saved, failed: didFail } = event.data ?? {};
+    if (type !== 'offline-page' || typeof href !== 'string') return;
+    pending.delete(href);
+    if (didFail) failed.add(href);
+    emit({ href, status: saved ? 'saved' : didFail ? 'failed' : undefined });
+  });
+
+  navigator.serviceWorker
+    .register('/sw.js')
+    .then(() => syncOfflinePages())
+    .catch(() => {});
+}
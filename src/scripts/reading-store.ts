@@ -6,22 +6,29 @@
  *   sysdesign:list  — pages saved for later
  *
  * Both store full item metadata so the /reading-list page
- * can render without any server round-trips.
+ * can render without any server round-trips. Removals are kept
+ * as timestamped tombstones in sysdesign:removed, so they win
+ * over older copies when progress is imported or synced.
  */
 
-export interface ReadingItem {
-  id: string;      // e.g. "lessons/caching"
-  title: string;
-  tagline: string;
-  href: string;
-  type: 'lesson' | 'guide' | 'system';
-  timestamp: number;
-}
+import {
+  mergeProgress,
+  parseProgressState,
+  PROGRESS_FILE_VERSION,
+  type ProgressFile,
+  type ProgressState,
+  type ReadingItem,
+  type Tombstone,
+} from '@/lib/progress';
+
+export type { ReadingItem };
 
 const READ_KEY = 'sysdesign:read';
 const LIST_KEY = 'sysdesign:list';
+const REMOVED_KEY = 'sysdesign:removed';
+const SYNC_KEY = 'sysdesign:sync';
 
-function load(key: string): ReadingItem[] {
+function load<T = ReadingItem>(key: string): T[] {
   try {
     return JSON.parse(localStorage.getItem(key) ?? '[]');
   } catch {
@@ -29,14 +36,25 @@ function load(key: string): ReadingItem[] {
   }
 }
 
-function save(key: string, items: ReadingItem[]): void {
+function save(key: string, items: ReadingItem[] | Tombstone[]): void {
   localStorage.setItem(key, JSON.stringify(items));
+  if (key !== REMOVED_KEY) scheduleSync();
 }
 
 function emit(detail: Record<string, unknown>): void {
   window.dispatchEvent(new CustomEvent('readingStateChange', { detail }));
 }
 
+function forget(id: string): void {
+  const removed = load<Tombstone>(REMOVED_KEY).filter((t) => t.id !== id);
+  removed.unshift({ id, timestamp: Date.now() });
+  save(REMOVED_KEY, removed);
+}
+
+function unforget(id: string): void {
+  save(REMOVED_KEY, load<Tombstone>(REMOVED_KEY).filter((t) => t.id !== id));
+}
+
 // ── Read ─────────────────────────────────────────────────────────────────────
 
 export function isRead(id: string): boolean {
@@ -46,13 +64,18 @@ export function isRead(id: string): boolean {
 export function markRead(item: Omit<ReadingItem, 'timestamp'>): void {
   const items = load(READ_KEY).filter((i) => i.id !== item.id);
   items.unshift({ ...item, timestamp: Date.now() });
+  unforget(item.id);
   save(READ_KEY, items);
   // Reading something implies you no longer need it in the list
-  removeFromList(item.id);
+  if (inList(item.id)) {
+    save(LIST_KEY, load(LIST_KEY).filter((i) => i.id !== item.id));
+    emit({ type: 'list', id: item.id, value: false });
+  }
   emit({ type: 'read', id: item.id, value: true });
 }
 
 export function unmarkRead(id: string): void {
+  forget(id);
   save(READ_KEY, load(READ_KEY).filter((i) => i.id !== id));
   emit({ type: 'read', id, value: false });
 }
@@ -81,11 +104,13 @@ export function addToList(item: Omit<ReadingItem, 'timestamp'>): void {
   if (isRead(item.id)) return; // already read, no need to save
   const items = load(LIST_KEY).filter((i) => i.id !== item.id);
   items.unshift({ ...item, timestamp: Date.now() });
+  unforget(item.id);
   save(LIST_KEY, items);
   emit({ type: 'list', id: item.id, value: true });
 }
 
 export function removeFromList(id: string): void {
+  forget(id);
   save(LIST_KEY, load(LIST_KEY).filter((i) => i.id !== id));
   emit({ type: 'list', id, value: false });
 }
@@ -107,3 +132,121 @@ export function getList(): ReadingItem[] {
 export function getListCount(): number {
   return load(LIST_KEY).length;
 }
+
+// ── Merge ────────────────────────────────────────────────────────────────────
+
+function localState(): ProgressState {
+  return { read: load(READ_KEY), list: load(LIST_KEY), removed: load<Tombstone>(REMOVED_KEY) };
+}
+
+/** Merges `incoming` into local storage and returns how many ids changed. */
+function applyMerge(incoming: ProgressState): number {
+  const before = localState();
+  const merged = mergeProgress(before, incoming);
+  const fingerprint = (state: ProgressState) =>
+    new Map(
+      (['read', 'list', 'removed'] as const).flatMap((slot) =>
+        state[slot].map((entry) => [entry.id, `${slot}:${entry.timestamp}`] as const),
+      ),
+    );
+  const previous = fingerprint(before);
+  const changed = [...fingerprint(merged)].filter(([id, value]) => previous.get(id) !== value).length;
+
+  if (changed > 0) {
+    localStorage.setItem(READ_KEY, JSON.stringify(merged.read));
+    localStorage.setItem(LIST_KEY, JSON.stringify(merged.list));
+    localStorage.setItem(REMOVED_KEY, JSON.stringify(merged.removed));
+    emit({ type: 'merge' });
+  }
+  return changed;
+}
+
+// ── Export / Import ──────────────────────────────────────────────────────────
+
+export function exportProgress(): ProgressFile {
+  return { version: PROGRESS_FILE_VERSION, exportedAt: Date.now(), ...localState() };
+}
+
+/** Parses a progress file, throwing on anything that is not one. */
+export function parseProgressFile(text: string): { state: ProgressState; rejected: number } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+  const version = (data as { version?: unknown } | null)?.version;
+  if (typeof version !== 'number') throw new Error('File is not a progress export.');
+  if (version > PROGRESS_FILE_VERSION) throw new Error('File was exported by a newer version of the site.');
+  return parseProgressState(data);
+}
+
+/**
+ * Merges an imported file into local storage: per id, whichever copy has
+ * the newest timestamp wins. Returns how many ids changed.
+ */
+export function importProgress(state: ProgressState): number {
+  const changed = applyMerge(state);
+  if (changed > 0) scheduleSync();
+  return changed;
+}
+
+// ── Sync ─────────────────────────────────────────────────────────────────────
+// Opt-in: with a sync code set, every change is pushed to /api/sync, which
+// merges it with the shared record and returns the result to merge locally.
+
+const SYNC_DEBOUNCE_MS = 2000;
+let syncTimer: ReturnType<typeof setTimeout> | undefined;
+
+export function getSyncCode(): string | null {
+  return localStorage.getItem(SYNC_KEY);
+}
+
+/** Five groups of four characters, without look-alikes such as 0/O and 1/l. */
+export function createSyncCode(): string {
+  const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789';
+  const bytes = crypto.getRandomValues(new Uint8Array(20));
+  const chars = [...bytes].map((byte) => alphabet[byte % alphabet.length]).join('');
+  return chars.match(/.{4}/g)!.join('-');
+}
+
+/** Stores the code and runs a first sync; the code is dropped again if that fails. */
+export async function enableSync(code: string): Promise<number> {
+  localStorage.setItem(SYNC_KEY, code.trim().toLowerCase());
+  try {
+    return await syncNow();
+  } catch (error) {
+    disableSync();
+    throw error;
+  }
+}
+
+export function disableSync(): void {
+  localStorage.removeItem(SYNC_KEY);
+  clearTimeout(syncTimer);
+}
+
+/** Pushes local progress and merges back the shared record. Returns how many ids changed locally. */
+export async function syncNow(): Promise<number> {
+  const code = getSyncCode();
+  if (!code) return 0;
+
+  const response = await fetch('/api/sync', {
+    method: 'PUT',
+    headers: { Authorization: `Bearer ${code}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(localState()),
+  });
+  if (!response.ok) {
+    const { error } = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(error ?? `Sync failed (${response.status}).`);
+  }
+  const changed = applyMerge(parseProgressState(await response.json()).state);
+  emit({ type: 'sync', changed });
+  return changed;
+}
+
+function scheduleSync(): void {
+  if (!getSyncCode()) return;
+  clearTimeout(syncTimer);
+  syncTimer = setTimeout(() => syncNow().catch(() => {}), SYNC_DEBOUNCE_MS);
+}
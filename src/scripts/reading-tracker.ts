@@ -3,12 +3,16 @@
  *
  * Loaded globally (via BaseLayout). Responsible for:
  *   1. Injecting read/saved badges on every [data-content-id] card
- *   2. Keeping the nav reading-list count badge up to date
+ *   2. Keeping the nav reading-list and due-review badges up to date
  *   3. Re-running on readingStateChange events (same-tab)
  *   4. Re-running on storage events (cross-tab sync)
+ *   5. Pulling the shared progress record once per visit when sync is on
+ *   6. Registering the service worker and keeping saved pages available offline
  */
 
-import { isRead, inList, getListCount } from '@/scripts/reading-store';
+import { isRead, inList, getListCount, getRead, getSyncCode, syncNow } from '@/scripts/reading-store';
+import { getDueCount, syncReviewQueue } from '@/scripts/review-store';
+import { registerOfflineSupport, syncOfflinePages } from '@/scripts/offline-pages';
 
 // ── Badge markup ──────────────────────────────────────────────────────────────
 
@@ -57,7 +61,7 @@ function updateAllCards(): void {
   });
 }
 
-// ── Nav badge ─────────────────────────────────────────────────────────────────
+// ── Nav badges ────────────────────────────────────────────────────────────────
 
 function updateNavBadge(): void {
   const badge = document.getElementById('reading-list-count');
@@ -67,11 +71,27 @@ function updateNavBadge(): void {
   badge.classList.toggle('hidden', count === 0);
 }
 
+function updateReviewBadge(): void {
+  syncReviewQueue(getRead());
+  const badge = document.getElementById('review-due-count');
+  if (!badge) return;
+  const count = getDueCount();
+  badge.textContent = String(count);
+  badge.classList.toggle('hidden', count === 0);
+}
+
 // ── Init & reactivity ─────────────────────────────────────────────────────────
 
 function init(): void {
   updateAllCards();
   updateNavBadge();
+  updateReviewBadge();
+  registerOfflineSupport();
+
+  if (getSyncCode() && !sessionStorage.getItem('sysdesign:synced')) {
+    sessionStorage.setItem('sysdesign:synced', '1');
+    syncNow().catch(() => sessionStorage.removeItem('sysdesign:synced'));
+  }
 }
 
 if (document.readyState === 'loading') {
@@ -82,18 +102,34 @@ if (document.readyState === 'loading') {
 
 // Same-tab reactivity: state changed by ReadingActions buttons
 window.addEventListener('readingStateChange', (e: Event) => {
-  const { id } = (e as CustomEvent<{ id: string }>).detail;
+  const { id, type } = (e as CustomEvent<{ id?: string; type?: string }>).detail;
+  // Imports and syncs touch many ids at once
+  if (!id) {
+    updateAllCards();
+    updateNavBadge();
+    updateReviewBadge();
+    syncOfflinePages().catch(() => {});
+    return;
+  }
+  // addToList caches the page; markRead and Remove evict it
+  if (type === 'list') syncOfflinePages().catch(() => {});
   // Update the specific card if visible on this page
   document.querySelectorAll<HTMLElement>(`[data-content-id="${id}"]`).forEach((el) => {
     updateCard(el, id);
   });
   updateNavBadge();
+  updateReviewBadge();
 });
 
+// Grading on /review changes what is due
+window.addEventListener('reviewStateChange', updateReviewBadge);
+
 // Cross-tab sync: another tab changed localStorage
 window.addEventListener('storage', (e: StorageEvent) => {
   if (e.key === 'sysdesign:read' || e.key === 'sysdesign:list') {
     updateAllCards();
     updateNavBadge();
   }
+  if (e.key === 'sysdesign:list') syncOfflinePages().catch(() => {});
+  if (e.key === 'sysdesign:read' || e.key === 'sysdesign:review') updateReviewBadge();
 });
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ReadingItem } from '@/scripts/reading-store';
+import { getDueReviews, getReviewState, nextReview, syncReviewQueue } from '@/scripts/review-store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function read(id: string, type: ReadingItem['type'], timestamp = Date.now()): ReadingItem {
+  return { id, title: id, tagline: '', href: `/${id}`, type, timestamp };
+}
+
+// The store only needs localStorage and window events, so no DOM environment.
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+});
+vi.stubGlobal('window', new EventTarget());
+
+beforeEach(() => storage.clear());
+
+describe('syncReviewQueue', () => {
+  it('schedules read lessons for the next day', () => {
+    const now = Date.now();
+    syncReviewQueue([read('lessons/caching', 'lesson', now)]);
+    const due = getReviewState('lessons/caching')!.due;
+    expect(due).toBeGreaterThan(now);
+    expect(due - now).toBeLessThanOrEqual(DAY_MS);
+    expect(getDueReviews(now + DAY_MS)).toEqual(['lessons/caching']);
+  });
+
+  it('leaves guides and case studies out', () => {
+    syncReviewQueue([read('lessons/caching', 'lesson'), read('guides/rate-limiting', 'guide'), read('systems/discord', 'system')]);
+    expect(getDueReviews(Date.now() + 2 * DAY_MS)).toEqual(['lessons/caching']);
+  });
+
+  it('drops entries queued before the queue was limited to lessons', () => {
+    storage.set(
+      'sysdesign:review',
+      JSON.stringify({ 'systems/discord': { ease: 2.5, interval: 0, repetitions: 0, due: 0 } }),
+    );
+    syncReviewQueue([read('systems/discord', 'system')]);
+    expect(getReviewState('systems/discord')).toBeUndefined();
+  });
+
+  it('drops lessons that are no longer read', () => {
+    syncReviewQueue([read('lessons/caching', 'lesson')]);
+    syncReviewQueue([]);
+    expect(getReviewState('lessons/caching')).toBeUndefined();
+  });
+});
+
+describe('nextReview', () => {
+  const fresh = { ease: 2.5, interval: 0, repetitions: 0, due: 0 };
+
+  it('stretches the interval while recall succeeds', () => {
+    const first = nextReview(fresh, 4, 0);
+    const second = nextReview(first, 4, 0);
+    const third = nextReview(second, 4, 0);
+    expect([first.interval, second.interval, third.interval]).toEqual([1, 6, 15]);
+  });
+
+  it('resets after a lapse, keeping ease above its floor', () => {
+    let state = nextReview(nextReview(fresh, 5, 0), 5, 0);
+    for (let i = 0; i < 10; i++) state = nextReview(state, 1, 0);
+    expect(state).toMatchObject({ interval: 1, repetitions: 0, ease: 1.3 });
+  });
+});
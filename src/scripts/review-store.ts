@@ -0,0 +1,121 @@
+/**
+ * Review Store — client-side only, backed by localStorage.
+ *
+ *   sysdesign:review  — recall schedule per read lesson, keyed by reading-store id
+ *
+ * Every lesson marked as read is queued for review a day later. Each review
+ * is graded, and an SM-2 style schedule stretches or resets the interval:
+ * remembered lessons come back less and less often, forgotten ones tomorrow.
+ * Guides and case studies are read once rather than memorised, so they are
+ * not scheduled.
+ */
+
+import type { ReadingItem } from '@/scripts/reading-store';
+
+export interface ReviewState {
+  /** SM-2 easiness factor, never below 1.3. */
+  ease: number;
+  /** Days until the next review after the last one. */
+  interval: number;
+  /** Successful reviews in a row. */
+  repetitions: number;
+  due: number;
+}
+
+/** How well the answer was recalled, on SM-2's 0–5 scale. */
+export type ReviewGrade = 1 | 3 | 4 | 5;
+
+export const reviewGrades: { grade: ReviewGrade; label: string }[] = [
+  { grade: 1, label: 'Forgot' },
+  { grade: 3, label: 'Hard' },
+  { grade: 4, label: 'Good' },
+  { grade: 5, label: 'Easy' },
+];
+
+const REVIEW_KEY = 'sysdesign:review';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function load(): Record<string, ReviewState> {
+  try {
+    return JSON.parse(localStorage.getItem(REVIEW_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+function save(states: Record<string, ReviewState>): void {
+  localStorage.setItem(REVIEW_KEY, JSON.stringify(states));
+  window.dispatchEvent(new CustomEvent('reviewStateChange'));
+}
+
+/** Start of tomorrow, so everything read today comes due together. */
+function startOfNextDay(now: number): number {
+  const date = new Date(now);
+  date.setHours(24, 0, 0, 0);
+  return date.getTime();
+}
+
+export function nextReview(state: ReviewState, grade: ReviewGrade, now = Date.now()): ReviewState {
+  const ease = Math.max(1.3, state.ease + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+  if (grade < 3) {
+    return { ease, interval: 1, repetitions: 0, due: now + DAY_MS };
+  }
+  const interval = state.repetitions === 0 ? 1 : state.repetitions === 1 ? 6 : Math.round(state.interval * state.ease);
+  return { ease, interval, repetitions: state.repetitions + 1, due: now + interval * DAY_MS };
+}
+
+// ── Queue ────────────────────────────────────────────────────────────────────
+
+/** Whether a reading-store id is scheduled for review: lessons only. */
+export function isReviewable(id: string): boolean {
+  return id.startsWith('lessons/');
+}
+
+/**
+ * Aligns the schedule with the read list: newly read lessons are queued for
+ * the day after they were read, and anything no longer marked read, or not
+ * a lesson, is dropped. Called by reading-tracker.ts whenever reading state
+ * changes.
+ */
+export function syncReviewQueue(read: ReadingItem[]): void {
+  const states = load();
+  const lessons = read.filter((item) => isReviewable(item.id));
+  const readIds = new Set(lessons.map((item) => item.id));
+  let changed = false;
+
+  for (const item of lessons) {
+    if (states[item.id]) continue;
+    states[item.id] = { ease: 2.5, interval: 0, repetitions: 0, due: startOfNextDay(item.timestamp) };
+    changed = true;
+  }
+  for (const id of Object.keys(states)) {
+    if (readIds.has(id)) continue;
+    delete states[id];
+    changed = true;
+  }
+
+  if (changed) save(states);
+}
+
+export function getDueReviews(now = Date.now()): string[] {
+  return Object.entries(load())
+    .filter(([, state]) => state.due <= now)
+    .sort(([, a], [, b]) => a.due - b.due)
+    .map(([id]) => id);
+}
+
+export function getDueCount(now = Date.now()): number {
+  return getDueReviews(now).length;
+}
+
+export function getReviewState(id: string): ReviewState | undefined {
+  return load()[id];
+}
+
+export function gradeReview(id: string, grade: ReviewGrade): ReviewState | undefined {
+  const states = load();
+  if (!states[id]) return undefined;
+  states[id] = nextReview(states[id], grade);
+  save(states);
+  return states[id];
+}